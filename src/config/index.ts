@@ -0,0 +1,159 @@
+import { isAbsolute, join } from "path";
+import { envSchema, type Env, type LogTransportName } from "./schema";
+
+type DeepReadonly<T> = T extends (infer U)[]
+  ? readonly DeepReadonly<U>[]
+  : T extends object
+    ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+    : T;
+
+const deepFreeze = <T>(value: T): DeepReadonly<T> => {
+  if (value && typeof value === "object") {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value as DeepReadonly<T>;
+};
+
+// Relative directories are resolved against the working directory
+const resolveDir = (dir: string) =>
+  isAbsolute(dir) ? dir : join(process.cwd(), dir);
+
+/**
+ * Parse the environment, or print every problem at once and exit
+ */
+const parseEnv = (env: NodeJS.ProcessEnv): Env => {
+  // Empty values, as left in .env.example, count as unset
+  const values = Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== "")
+  );
+
+  const result = envSchema.safeParse(values);
+
+  if (!result.success) {
+    const report = result.error.issues
+      .map((issue) => `  ${issue.path.join(".")}: ${issue.message}`)
+      .join("\n");
+
+    console.error(`Invalid configuration, check your environment:\n${report}`);
+    process.exit(1);
+  }
+
+  return result.data;
+};
+
+const toConfig = (env: Env) => {
+  const isDevelopment = env.NODE_ENV === "development";
+  const defaultLogTransports: LogTransportName[] = isDevelopment
+    ? ["pretty", "file"]
+    : ["json", "file"];
+
+  return {
+    env: env.NODE_ENV,
+    isProduction: env.NODE_ENV === "production",
+    isDevelopment,
+    port: env.PORT,
+    appUrl: env.APP_URL,
+    proxy: {
+      // Reverse proxies in front of the app that append to X-Forwarded-For
+      trustedHops: env.TRUST_PROXY_HOPS,
+    },
+    cors: {
+      origins: env.CORS_ORIGINS,
+    },
+    cookies: {
+      secure: env.COOKIE_SECURE,
+      sameSite: env.COOKIE_SAME_SITE,
+      domain: env.COOKIE_DOMAIN,
+    },
+    jwt: {
+      keysDir: env.JWT_KEYS_DIR,
+      activeKid: env.JWT_ACTIVE_KID,
+      issuer: env.JWT_ISSUER || env.APP_URL,
+      // Lifetimes in seconds
+      ttl: {
+        access: env.ACCESS_TOKEN_TTL,
+        refresh: env.REFRESH_TOKEN_TTL,
+        "verify-email": env.EMAIL_VERIFICATION_TOKEN_TTL,
+        "2fa-challenge": env.TWO_FACTOR_CHALLENGE_TTL,
+      },
+    },
+    twoFactor: {
+      encryptionKey: env.TWO_FACTOR_ENCRYPTION_KEY,
+      issuer: env.TWO_FACTOR_ISSUER,
+    },
+    password: {
+      minLength: env.PASSWORD_MIN_LENGTH,
+      requiredClasses: env.PASSWORD_REQUIRED_CLASSES,
+      bcryptCost: env.BCRYPT_COST,
+      breachedList: env.PASSWORD_BREACHED_LIST,
+    },
+    lockout: {
+      store: env.LOCKOUT_STORE,
+    },
+    users: {
+      retentionDays: env.USER_RETENTION_DAYS,
+    },
+    mail: {
+      transport: env.MAIL_TRANSPORT,
+      outboxDir: resolveDir(env.MAIL_OUTBOX_DIR),
+    },
+    storage: {
+      driver: env.STORAGE_DRIVER,
+      localDir: resolveDir(env.STORAGE_LOCAL_DIR),
+      s3: {
+        bucket: env.S3_BUCKET ?? "",
+        endpoint: env.S3_ENDPOINT,
+        region: env.S3_REGION,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        publicUrl: env.S3_PUBLIC_URL,
+      },
+    },
+    tracing: {
+      exporter: env.OTEL_TRACES_EXPORTER,
+      // OTLP/HTTP base URL, traces go to <endpoint>/v1/traces
+      otlpEndpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, ""),
+      serviceName: env.OTEL_SERVICE_NAME,
+    },
+    metrics: {
+      // GET /metrics needs this as a bearer token
+      token: env.METRICS_TOKEN,
+      // Serve /metrics on this port only, away from the public one
+      port: env.METRICS_PORT,
+    },
+    avatar: {
+      maxBytes: env.AVATAR_MAX_BYTES,
+    },
+    log: {
+      level: env.LOG_LEVEL ?? (isDevelopment ? "debug" : "info"),
+      // Readable console output while developing, JSON lines elsewhere
+      transports: env.LOG_TRANSPORTS.length
+        ? env.LOG_TRANSPORTS
+        : defaultLogTransports,
+      dir: resolveDir(env.LOG_DIR),
+      maxFileBytes: env.LOG_MAX_FILE_SIZE,
+      retentionDays: env.LOG_RETENTION_DAYS,
+      compress: env.LOG_COMPRESS,
+      // Readable while developing, pseudonymous elsewhere
+      redact: {
+        keys: env.LOG_REDACT_KEYS,
+        emails: env.LOG_REDACT_EMAILS ?? (isDevelopment ? "mask" : "hash"),
+        ips: env.LOG_REDACT_IPS ?? (isDevelopment ? "off" : "mask"),
+      },
+      access: {
+        sampleRate: env.ACCESS_LOG_SAMPLE_RATE,
+        excludePaths: env.ACCESS_LOG_EXCLUDE_PATHS,
+        levels: env.ACCESS_LOG_LEVELS,
+      },
+    },
+  };
+};
+
+/**
+ * Typed application settings, read from the environment once at startup.
+ * Read settings from here rather than from process.env.
+ */
+export const config = deepFreeze(toConfig(parseEnv(process.env)));
+
+export type Config = typeof config;
@@ -1,15 +1,32 @@
+// Loaded first so an invalid environment stops the app before anything else
+import { config } from "./config";
 import { OpenAPIHono } from "@hono/zod-openapi";
-import { logger } from "hono/logger";
 import cors from "./utils/cors";
 import docs from "./utils/docs";
+import jwks from "./utils/jwks";
+import metrics from "./utils/metrics";
+import uploads from "./utils/uploads";
 import { v1 } from "./versions";
 import { serveStatic } from "hono/bun";
-import { customLogger } from "./middleware/logger";
+import { accessLog } from "./middleware/access-log";
+import { requestContextMiddleware } from "./middleware/request-context";
+import { tracingMiddleware } from "./middleware/tracing";
+import { metricsMiddleware } from "./middleware/metrics";
+import { errorHandler, notFoundHandler } from "./middleware/error-handler";
 
 const app = new OpenAPIHono();
 
-// Logger
-app.use(logger(customLogger));
+// Request ID & context, available to everything below
+app.use(requestContextMiddleware);
+
+// Server span per request, continues an incoming traceparent
+app.use(tracingMiddleware);
+
+// Request counts & latencies for /metrics
+app.use(metricsMiddleware);
+
+// Access log, one entry per request
+app.use(accessLog());
 
 // CORS
 cors(app);
@@ -17,24 +34,28 @@ cors(app);
 // Docs
 docs(app);
 
+// JWKS
+jwks(app);
+
+// Prometheus metrics
+metrics(app);
+
+// Uploaded files (local storage driver)
+uploads(app);
+
 // Routes
 app.route("/api/v1", v1);
 
 // Health check
 app.use("/", serveStatic({ root: "./src/public" }));
 
-// Error handling middleware
-app.onError((err, c) => {
-  console.error(`${err}`);
-  return c.json({ error: "Internal Server Error" }, 500);
-});
+// Error handling, every error is rendered as application/problem+json
+app.onError(errorHandler);
 
 // 404 handler
-app.notFound((c) => {
-  return c.json({ error: "Not Found" }, 404);
-});
+app.notFound(notFoundHandler);
 
 export default {
-  port: Number(process.env.PORT) || 3003,
+  port: config.port,
   fetch: app.fetch,
 };
@@ -0,0 +1,31 @@
+import type { LogEntry, LogLevel, LogTransport } from "./types";
+
+const COLORS: Record<LogLevel, string> = {
+  info: "\x1b[36m", // Cyan
+  warn: "\x1b[33m", // Yellow
+  error: "\x1b[31m", // Red
+  debug: "\x1b[35m", // Magenta
+};
+
+const RESET = "\x1b[0m";
+
+/**
+ * Color-coded, human readable console output for development
+ */
+export class PrettyConsoleTransport implements LogTransport {
+  write({ timestamp, level, message, data }: LogEntry) {
+    console.log(
+      `${COLORS[level]}[${timestamp}] ${level.toUpperCase()}: ${message}${RESET}`,
+      data ?? ""
+    );
+  }
+}
+
+/**
+ * One JSON object per line on stdout, for log collectors
+ */
+export class JsonStdoutTransport implements LogTransport {
+  write(entry: LogEntry) {
+    process.stdout.write(JSON.stringify(entry) + "\n");
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  appendFileSync,
+  createReadStream,
+  createWriteStream,
+  mkdirSync,
+} from "fs";
+import { appendFile, readdir, rename, stat, unlink } from "fs/promises";
+import { join } from "path";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+import type { LogEntry, LogLevel, LogTransport } from "./types";
+
+export interface FileTransportOptions {
+  dir: string;
+  // A file is rotated before a write would take it past this size
+  maxFileBytes: number;
+  // Files dated further back than this are deleted
+  retentionDays: number;
+  // Gzip rotated files
+  compress: boolean;
+}
+
+// Every entry goes to the combined file and to the file of its level
+type LogFile = LogLevel | "combined";
+
+interface OpenFile {
+  date: string;
+  path: string;
+  size: number;
+}
+
+const FLUSH_INTERVAL_MS = 1000;
+
+// Flush before the next tick of the interval once this much is buffered
+const FLUSH_THRESHOLD_BYTES = 64 * 1024;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 2025-01-14-error.log, or 2025-01-14-error.1.log.gz once rotated
+const LOG_FILE_PATTERN =
+  /^(\d{4}-\d{2}-\d{2})-([a-z]+)(?:\.(\d+))?\.log(?:\.gz)?$/;
+
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const fileSize = (path: string) =>
+  stat(path).then(
+    (stats) => stats.size,
+    () => 0
+  );
+
+const gzipFile = async (path: string) => {
+  await pipeline(
+    createReadStream(path),
+    createGzip(),
+    createWriteStream(`${path}.gz`)
+  );
+  await unlink(path);
+};
+
+/**
+ * Daily JSON-lines files, one per level plus a combined one.
+ * Writes are buffered and appended asynchronously. A file is rotated when
+ * the day changes or when it reaches maxFileBytes, then optionally gzipped,
+ * and files past the retention limit are deleted.
+ */
+export class FileTransport implements LogTransport {
+  private readonly buffers = new Map<LogFile, string[]>();
+  private bufferedBytes = 0;
+  private readonly files = new Map<LogFile, OpenFile>();
+  // Flushes run one after another so appends and renames never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: FileTransportOptions) {
+    mkdirSync(options.dir, { recursive: true });
+
+    setInterval(() => void this.flush(), FLUSH_INTERVAL_MS).unref();
+
+    // Async work cannot run on exit, so whatever is left is written synchronously
+    process.once("exit", () => this.flushSync());
+
+    this.enqueue(() => this.removeExpired());
+  }
+
+  write(entry: LogEntry) {
+    const line = JSON.stringify(entry) + "\n";
+
+    this.buffer("combined", line);
+    this.buffer(entry.level, line);
+
+    if (this.bufferedBytes >= FLUSH_THRESHOLD_BYTES) void this.flush();
+  }
+
+  flush() {
+    const batches = this.takeBuffers();
+
+    if (batches.length === 0) return this.queue;
+
+    return this.enqueue(async () => {
+      for (const [file, content] of batches) {
+        await this.append(file, content);
+      }
+    });
+  }
+
+  private buffer(file: LogFile, line: string) {
+    const lines = this.buffers.get(file);
+
+    if (lines) lines.push(line);
+    else this.buffers.set(file, [line]);
+
+    this.bufferedBytes += line.length;
+  }
+
+  private takeBuffers() {
+    const batches = Array.from(
+      this.buffers,
+      ([file, lines]) => [file, lines.join("")] as const
+    );
+
+    this.buffers.clear();
+    this.bufferedBytes = 0;
+
+    return batches;
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue
+      .then(task)
+      .catch((error) => console.error("Failed to write to log file:", error));
+
+    return this.queue;
+  }
+
+  private async append(name: LogFile, content: string) {
+    const bytes = Buffer.byteLength(content);
+    const file = await this.currentFile(name, bytes);
+
+    await appendFile(file.path, content);
+    file.size += bytes;
+  }
+
+  // The file to append to, rotating the open one first when needed
+  private async currentFile(name: LogFile, bytes: number) {
+    const date = toDate(Date.now());
+    let file = this.files.get(name);
+
+    if (!file || file.date !== date) {
+      // Yesterday's file is complete
+      if (file) await this.rotate(name, file);
+
+      const path = join(this.options.dir, `${date}-${name}.log`);
+      file = { date, path, size: await fileSize(path) };
+      this.files.set(name, file);
+    }
+
+    if (file.size > 0 && file.size + bytes > this.options.maxFileBytes) {
+      await this.rotate(name, file);
+      file.size = 0;
+    }
+
+    return file;
+  }
+
+  // Move the file aside as <date>-<name>.<n>.log, then compress it
+  private async rotate(name: LogFile, file: OpenFile) {
+    const index = (await this.lastIndex(file.date, name)) + 1;
+    const rotated = join(this.options.dir, `${file.date}-${name}.${index}.log`);
+
+    try {
+      await rename(file.path, rotated);
+    } catch (error) {
+      // Removed from under us, nothing to rotate
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    if (this.options.compress) await gzipFile(rotated);
+
+    await this.removeExpired();
+  }
+
+  private async lastIndex(date: string, name: LogFile) {
+    const indexes = (await readdir(this.options.dir))
+      .map((filename) => LOG_FILE_PATTERN.exec(filename))
+      .filter((match) => match?.[1] === date && match[2] === name)
+      .map((match) => Number(match![3] ?? 0));
+
+    return Math.max(0, ...indexes);
+  }
+
+  private async removeExpired() {
+    const cutoff = toDate(Date.now() - this.options.retentionDays * DAY_MS);
+    const expired = (await readdir(this.options.dir)).filter((filename) => {
+      const date = LOG_FILE_PATTERN.exec(filename)?.[1];
+      return date !== undefined && date < cutoff;
+    });
+
+    await Promise.all(
+      expired.map((filename) => unlink(join(this.options.dir, filename)))
+    );
+  }
+
+  private flushSync() {
+    for (const [name, content] of this.takeBuffers()) {
+      const path =
+        this.files.get(name)?.path ??
+        join(this.options.dir, `${toDate(Date.now())}-${name}.log`);
+
+      try {
+        appendFileSync(path, content);
+      } catch (error) {
+        console.error("Failed to write to log file:", error);
+      }
+    }
+  }
+}
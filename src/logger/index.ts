@@ -0,0 +1,38 @@
+import { config } from "@/config";
+import type { LogTransportName } from "@/config/schema";
+import { JsonStdoutTransport, PrettyConsoleTransport } from "./console";
+import { FileTransport } from "./file";
+import { createRedactor } from "./redact";
+import type { LogTransport } from "./types";
+
+const createTransport = (name: LogTransportName): LogTransport => {
+  switch (name) {
+    case "json":
+      return new JsonStdoutTransport();
+    case "file":
+      return new FileTransport({
+        dir: config.log.dir,
+        maxFileBytes: config.log.maxFileBytes,
+        retentionDays: config.log.retentionDays,
+        compress: config.log.compress,
+      });
+    default:
+      return new PrettyConsoleTransport();
+  }
+};
+
+// Selected by LOG_TRANSPORTS
+export const logTransports = config.log.transports.map(createTransport);
+
+// Applied to every entry, see LOG_REDACT_*
+export const logRedactor = createRedactor(config.log.redact);
+
+export {
+  createRedactor,
+  FileTransport,
+  JsonStdoutTransport,
+  PrettyConsoleTransport,
+};
+export type { FileTransportOptions } from "./file";
+export type { RedactionRules } from "./redact";
+export type { LogEntry, LogLevel, LogTransport } from "./types";
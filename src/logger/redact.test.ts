@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+import { createRedactor, type RedactionRules } from "./redact";
+import type { LogEntry } from "./types";
+
+const entry = (fields: Partial<LogEntry>, rules: Partial<RedactionRules>) =>
+  createRedactor({ keys: [], emails: "off", ips: "off", ...rules })({
+    timestamp: "2024-01-01T00:00:00.000Z",
+    level: "info",
+    message: "",
+    ...fields,
+  });
+
+const redact = (data: unknown, rules: Partial<RedactionRules> = {}) =>
+  entry({ data }, rules).data;
+
+describe("keys", () => {
+  const keys = ["password", "accessToken", "token", "user.phone"];
+
+  test("replaces values under matching keys at any depth", () => {
+    expect(
+      redact(
+        { password: "hunter2", nested: { list: [{ password: "x" }] } },
+        { keys }
+      )
+    ).toEqual({
+      password: "[REDACTED]",
+      nested: { list: [{ password: "[REDACTED]" }] },
+    });
+  });
+
+  test("ignores case, dashes and underscores", () => {
+    expect(
+      redact(
+        { access_token: "a", "Access-Token": "b", ACCESSTOKEN: "c" },
+        { keys }
+      )
+    ).toEqual({
+      access_token: "[REDACTED]",
+      "Access-Token": "[REDACTED]",
+      ACCESSTOKEN: "[REDACTED]",
+    });
+  });
+
+  test("matches whole names only", () => {
+    const data = { tokenId: "t1", tokenPrefix: "hk_", passwordChangedAt: 1 };
+
+    expect(redact(data, { keys })).toEqual(data);
+  });
+
+  test("redacts the whole value, objects included", () => {
+    expect(redact({ token: { value: "x" } }, { keys })).toEqual({
+      token: "[REDACTED]",
+    });
+  });
+
+  test("matches dotted paths from the root only", () => {
+    expect(
+      redact(
+        { user: { phone: "555" }, other: { user: { phone: "555" } } },
+        { keys }
+      )
+    ).toEqual({
+      user: { phone: "[REDACTED]" },
+      other: { user: { phone: "555" } },
+    });
+  });
+});
+
+describe("emails", () => {
+  const data = { note: "mail jane@example.com or BOB@Example.org" };
+
+  test("masks addresses inside strings", () => {
+    expect(redact(data, { emails: "mask" })).toEqual({
+      note: "mail j***@example.com or B***@Example.org",
+    });
+  });
+
+  test("hashes addresses the same way regardless of case", () => {
+    const { note } = redact(
+      { note: "jane@example.com JANE@EXAMPLE.COM" },
+      { emails: "hash" }
+    ) as { note: string };
+    const [first, second] = note.split(" ");
+
+    expect(first).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(second).toBe(first);
+  });
+
+  test("leaves them alone when off", () => {
+    expect(redact(data)).toEqual(data);
+  });
+
+  test("applies to the message", () => {
+    expect(
+      entry({ message: "Sent to jane@example.com" }, { emails: "mask" }).message
+    ).toBe("Sent to j***@example.com");
+  });
+});
+
+describe("IP addresses", () => {
+  test("masks the host part of IPv4 and IPv6 addresses", () => {
+    expect(
+      redact(
+        { v4: "203.0.113.7", v6: "2001:db8:85a3:0:0:8a2e:370:7334" },
+        { ips: "mask" }
+      )
+    ).toEqual({ v4: "203.0.113.0", v6: "2001:db8:85a3::" });
+  });
+
+  test("handles X-Forwarded-For lists", () => {
+    expect(
+      redact({ xff: "203.0.113.7, 198.51.100.23" }, { ips: "mask" })
+    ).toEqual({ xff: "203.0.113.0, 198.51.100.0" });
+  });
+
+  test("hashes addresses", () => {
+    expect(entry({ ip: "203.0.113.7" }, { ips: "hash" }).ip).toMatch(
+      /^sha256:[0-9a-f]{16}$/
+    );
+  });
+
+  test("leaves strings that only look similar alone", () => {
+    const data = { version: "1.2.3", text: "from 203.0.113.7" };
+
+    expect(redact(data, { ips: "mask" })).toEqual(data);
+  });
+});
+
+describe("structure", () => {
+  test("keeps the message, name and stack of errors", () => {
+    const error = new Error("failed for jane@example.com");
+
+    expect(redact({ error }, { emails: "mask" })).toEqual({
+      error: {
+        name: "Error",
+        message: "failed for j***@example.com",
+        stack: expect.any(String),
+      },
+    });
+  });
+
+  test("truncates deep and circular data", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    let level = redact(circular) as Record<string, unknown>;
+    for (let depth = 1; depth < 10; depth++) {
+      level = level.self as Record<string, unknown>;
+    }
+
+    expect(level.self).toBe("[Truncated]");
+  });
+
+  test("passes dates and primitives through", () => {
+    const date = new Date();
+
+    expect(redact({ date, count: 1, ok: true, none: null })).toEqual({
+      date,
+      count: 1,
+      ok: true,
+      none: null,
+    });
+  });
+});
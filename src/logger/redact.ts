@@ -0,0 +1,121 @@
+import { createHash } from "crypto";
+import { isIP, isIPv4 } from "net";
+import type { RedactMode } from "@/config/schema";
+import type { LogEntry } from "./types";
+
+export interface RedactionRules {
+  // Whole key names, ignoring case, "-" and "_" so accessToken also covers
+  // access_token, or dotted paths from the root of the data such as
+  // "user.phone". "token" does not cover tokenId.
+  keys: readonly string[];
+  emails: RedactMode;
+  ips: RedactMode;
+}
+
+const REDACTED = "[REDACTED]";
+
+// Also stops circular references
+const MAX_DEPTH = 10;
+
+const EMAIL_PATTERN = /[\w.%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// Stable across entries, so one user's lines can still be correlated
+const hash = (value: string) =>
+  `sha256:${createHash("sha256").update(value.toLowerCase()).digest("hex").slice(0, 16)}`;
+
+// jane@example.com -> j***@example.com
+const maskEmail = (email: string) =>
+  `${email[0]}***${email.slice(email.lastIndexOf("@"))}`;
+
+// Keep the network, drop the host: 203.0.113.0, 2001:db8:85a3::
+const maskIp = (ip: string) => {
+  if (isIPv4(ip)) return ip.replace(/\.\d+$/, ".0");
+
+  const groups = ip.split("::")[0].split(":").filter(Boolean).slice(0, 3);
+  return `${groups.join(":")}::`;
+};
+
+// accessToken, access_token and Access-Token compare equal
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[-_]/g, "");
+
+// A single address or an X-Forwarded-For style list
+const isIpList = (value: string) =>
+  value.split(",").every((part) => isIP(part.trim()) !== 0);
+
+/**
+ * Build the function Logger runs on every entry before it reaches a
+ * transport. Sensitive keys are replaced, emails and IP addresses are
+ * masked or hashed wherever they appear as values.
+ */
+export const createRedactor = ({ keys, emails, ips }: RedactionRules) => {
+  const names = new Set(
+    keys.filter((key) => !key.includes(".")).map(normalizeKey)
+  );
+  const paths = keys
+    .filter((key) => key.includes("."))
+    .map((key) => key.toLowerCase());
+
+  const isSensitive = (key: string, path: string) =>
+    names.has(normalizeKey(key)) || paths.includes(path.toLowerCase());
+
+  const redactString = (value: string) => {
+    if (ips !== "off" && isIpList(value)) {
+      return value
+        .split(",")
+        .map((ip) => (ips === "hash" ? hash(ip.trim()) : maskIp(ip.trim())))
+        .join(", ");
+    }
+
+    if (emails === "off") return value;
+
+    return value.replace(EMAIL_PATTERN, (email) =>
+      emails === "hash" ? hash(email) : maskEmail(email)
+    );
+  };
+
+  const redactValue = (
+    value: unknown,
+    path: string,
+    depth: number
+  ): unknown => {
+    if (typeof value === "string") return redactString(value);
+    if (!value || typeof value !== "object") return value;
+    if (depth >= MAX_DEPTH) return "[Truncated]";
+
+    if (value instanceof Error) {
+      return redactValue(
+        { name: value.name, message: value.message, stack: value.stack },
+        path,
+        depth
+      );
+    }
+
+    // Dates, Buffers and the like serialize themselves
+    if ("toJSON" in value && typeof value.toJSON === "function") return value;
+
+    if (Array.isArray(value)) {
+      return value.map((item) => redactValue(item, path, depth + 1));
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const itemPath = path ? `${path}.${key}` : key;
+
+        return [
+          key,
+          isSensitive(key, itemPath)
+            ? REDACTED
+            : redactValue(item, itemPath, depth + 1),
+        ];
+      })
+    );
+  };
+
+  return (entry: LogEntry): LogEntry => ({
+    ...entry,
+    message: redactString(entry.message),
+    data: redactValue(entry.data, "", 0),
+    ip: entry.ip && redactString(entry.ip),
+    url: entry.url && redactString(entry.url),
+  });
+};
@@ -0,0 +1,28 @@
+import type { LogLevel } from "@/config/schema";
+
+export type { LogLevel };
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  data?: any;
+  requestId?: string;
+  ip?: string;
+  userAgent?: string;
+  method?: string;
+  url?: string;
+  // Set while a span is active, see src/tracing
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * Where log entries go. Implement this to ship logs elsewhere.
+ * write() must not block; transports that do I/O buffer and flush later.
+ */
+export interface LogTransport {
+  write(entry: LogEntry): void;
+  // Write out anything still buffered
+  flush?(): Promise<void>;
+}
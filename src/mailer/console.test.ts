@@ -0,0 +1,23 @@
+import { afterEach, expect, mock, spyOn, test } from "bun:test";
+import { logger } from "@/middleware/logger";
+import { ConsoleMailer } from "./console";
+
+afterEach(() => {
+  mock.restore();
+});
+
+test("masks tokens in links before logging the mail", async () => {
+  const info = spyOn(logger, "info").mockImplementation(() => {});
+
+  await new ConsoleMailer().send({
+    to: "jane@example.com",
+    subject: "Reset your password",
+    text: "Open https://app.example.com/reset-password?token=abc-123_x&lang=en\n\nor https://app.example.com/verify-email?token=def",
+  });
+
+  expect(info).toHaveBeenCalledWith("Mail sent", {
+    to: "jane@example.com",
+    subject: "Reset your password",
+    text: "Open https://app.example.com/reset-password?token=[REDACTED]&lang=en\n\nor https://app.example.com/verify-email?token=[REDACTED]",
+  });
+});
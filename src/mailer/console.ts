@@ -0,0 +1,20 @@
+import { logger } from "@/middleware/logger";
+import type { Mailer, MailMessage } from "./types";
+
+// Reset and verification links carry working tokens, which must not end up
+// in log files
+const TOKEN_PARAM = /([?&]token=)[^&\s]+/gi;
+
+/**
+ * Prints outgoing mail to the log instead of delivering it. Tokens in
+ * links are masked; use the outbox transport to follow links locally.
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage) {
+    logger.info("Mail sent", {
+      to: message.to,
+      subject: message.subject,
+      text: message.text.replace(TOKEN_PARAM, "$1[REDACTED]"),
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { config } from "@/config";
+import { logger } from "@/middleware/logger";
+import { ConsoleMailer } from "./console";
+import { OutboxMailer } from "./outbox";
+import type { Mailer } from "./types";
+
+const createMailer = (): Mailer => {
+  // Neither transport delivers mail: users never get reset or verification
+  // links, and outbox files hold working tokens
+  if (config.isProduction) {
+    logger.warn(
+      `MAIL_TRANSPORT=${config.mail.transport} does not deliver mail - plug in a real Mailer for production`
+    );
+  }
+
+  switch (config.mail.transport) {
+    case "outbox":
+      return new OutboxMailer(config.mail.outboxDir);
+    default:
+      return new ConsoleMailer();
+  }
+};
+
+export const mailer = createMailer();
+
+export { ConsoleMailer, OutboxMailer };
+export type { Mailer, MailMessage } from "./types";
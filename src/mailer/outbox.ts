@@ -0,0 +1,23 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Mailer, MailMessage } from "./types";
+
+/**
+ * Writes every outgoing mail as a JSON file into a directory,
+ * so local runs and tests can read what would have been sent
+ */
+export class OutboxMailer implements Mailer {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+
+    const sentAt = new Date().toISOString();
+    const filename = `${sentAt.replace(/[:.]/g, "-")}-${crypto.randomUUID()}.json`;
+
+    await writeFile(
+      join(this.dir, filename),
+      JSON.stringify({ ...message, sentAt }, null, 2)
+    );
+  }
+}
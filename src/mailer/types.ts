@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport. Implement this to plug in SMTP or a provider API.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
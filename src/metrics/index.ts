@@ -0,0 +1,54 @@
+import {
+  Counter,
+  DEFAULT_BUCKETS,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+} from "./registry";
+
+// The app's metrics, served by GET /metrics
+export const metrics = new MetricsRegistry();
+
+const residentMemory = metrics.gauge({
+  name: "process_resident_memory_bytes",
+  help: "Resident memory size in bytes",
+});
+
+const heapUsed = metrics.gauge({
+  name: "process_heap_used_bytes",
+  help: "JavaScript heap in use in bytes",
+});
+
+const cpuUser = metrics.counter({
+  name: "process_cpu_user_seconds_total",
+  help: "User CPU time spent in seconds",
+});
+
+const cpuSystem = metrics.counter({
+  name: "process_cpu_system_seconds_total",
+  help: "System CPU time spent in seconds",
+});
+
+metrics
+  .gauge({
+    name: "process_start_time_seconds",
+    help: "Start time of the process since the Unix epoch in seconds",
+  })
+  .set(undefined, Math.round(Date.now() / 1000 - process.uptime()));
+
+let lastCpuUsage = { user: 0, system: 0 };
+
+metrics.onCollect(() => {
+  const memory = process.memoryUsage();
+  residentMemory.set(undefined, memory.rss);
+  heapUsed.set(undefined, memory.heapUsed);
+
+  // cpuUsage() is cumulative, counters take the growth since last scrape
+  const cpuUsage = process.cpuUsage();
+  cpuUser.inc(undefined, (cpuUsage.user - lastCpuUsage.user) / 1e6);
+  cpuSystem.inc(undefined, (cpuUsage.system - lastCpuUsage.system) / 1e6);
+  lastCpuUsage = cpuUsage;
+});
+
+export { Counter, DEFAULT_BUCKETS, Gauge, Histogram, MetricsRegistry };
+export type { HistogramOptions, Labels, MetricOptions } from "./registry";
@@ -0,0 +1,242 @@
+export type Labels<L extends string> = Partial<Record<L, string | number>>;
+
+export interface MetricOptions<L extends string> {
+  // snake_case, with a unit suffix such as _seconds or _bytes, and _total
+  // for counters
+  name: string;
+  help: string;
+  labelNames?: readonly L[];
+}
+
+export interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  // Upper bounds, in ascending order. +Inf is added automatically.
+  buckets?: readonly number[];
+}
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+// Suited to request latencies in seconds
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatNumber = (value: number) =>
+  value === Infinity ? "+Inf" : value === -Infinity ? "-Inf" : String(value);
+
+// What the registry needs of a metric, whatever its labels and values
+interface RegisteredMetric {
+  readonly name: string;
+  render(): string;
+}
+
+abstract class Metric<L extends string, T> implements RegisteredMetric {
+  abstract readonly type: MetricType;
+
+  // One series per combination of label values, keyed by the rendered labels
+  protected readonly series = new Map<string, T>();
+
+  constructor(protected readonly options: MetricOptions<L>) {
+    if (!NAME_PATTERN.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+  }
+
+  get name() {
+    return this.options.name;
+  }
+
+  // label="value" pairs in declaration order; undeclared labels are ignored
+  protected labelKey(labels: Labels<L> = {}) {
+    return (this.options.labelNames ?? [])
+      .filter((name) => labels[name] !== undefined)
+      .map((name) => `${name}="${escapeLabelValue(String(labels[name]))}"`)
+      .join(",");
+  }
+
+  protected sample(suffix: string, labelKey: string, value: number) {
+    const labels = labelKey ? `{${labelKey}}` : "";
+    return `${this.name}${suffix}${labels} ${formatNumber(value)}`;
+  }
+
+  protected abstract samples(): string[];
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.options.help.replace(/\n/g, " ")}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+}
+
+/**
+ * A value that only goes up, e.g. requests served
+ */
+export class Counter<L extends string = never> extends Metric<L, number> {
+  readonly type = "counter";
+
+  inc(labels?: Labels<L>, value = 1) {
+    if (value < 0) throw new Error("Counters can only increase");
+
+    const key = this.labelKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  protected samples() {
+    return Array.from(this.series, ([key, value]) =>
+      this.sample("", key, value)
+    );
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. memory in use
+ */
+export class Gauge<L extends string = never> extends Metric<L, number> {
+  readonly type = "gauge";
+
+  set(labels: Labels<L> | undefined, value: number) {
+    this.series.set(this.labelKey(labels), value);
+  }
+
+  inc(labels?: Labels<L>, value = 1) {
+    const key = this.labelKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  dec(labels?: Labels<L>, value = 1) {
+    this.inc(labels, -value);
+  }
+
+  protected samples() {
+    return Array.from(this.series, ([key, value]) =>
+      this.sample("", key, value)
+    );
+  }
+}
+
+interface HistogramSeries {
+  // Observations per bucket, not cumulative
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Observations counted into buckets, e.g. request durations
+ */
+export class Histogram<L extends string = never> extends Metric<
+  L,
+  HistogramSeries
+> {
+  readonly type = "histogram";
+  private readonly buckets: number[];
+
+  constructor(options: HistogramOptions<L>) {
+    super(options);
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS), Infinity];
+  }
+
+  observe(labels: Labels<L> | undefined, value: number) {
+    const key = this.labelKey(labels);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    series.counts[this.buckets.findIndex((bound) => value <= bound)] += 1;
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * Start timing; call the returned function to observe the elapsed seconds
+   */
+  startTimer(labels?: Labels<L>) {
+    const start = performance.now();
+
+    return (endLabels?: Labels<L>) =>
+      this.observe(
+        { ...labels, ...endLabels },
+        (performance.now() - start) / 1000
+      );
+  }
+
+  protected samples() {
+    return Array.from(this.series).flatMap(([key, series]) => {
+      let cumulative = 0;
+
+      const buckets = this.buckets.map((bound, index) => {
+        cumulative += series.counts[index];
+        const le = `le="${formatNumber(bound)}"`;
+        return this.sample("_bucket", key ? `${key},${le}` : le, cumulative);
+      });
+
+      return [
+        ...buckets,
+        this.sample("_sum", key, series.sum),
+        this.sample("_count", key, series.count),
+      ];
+    });
+  }
+}
+
+/**
+ * Holds every metric and renders them in the Prometheus text format.
+ * Modules create their metrics once, at module level:
+ *
+ * const profileExports = metrics.counter({
+ *   name: "profile_exports_total",
+ *   help: "Personal data exports",
+ * });
+ * profileExports.inc();
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, RegisteredMetric>();
+  private readonly collectors: (() => void)[] = [];
+
+  counter<L extends string = never>(options: MetricOptions<L>) {
+    return this.register(new Counter<L>(options));
+  }
+
+  gauge<L extends string = never>(options: MetricOptions<L>) {
+    return this.register(new Gauge<L>(options));
+  }
+
+  histogram<L extends string = never>(options: HistogramOptions<L>) {
+    return this.register(new Histogram<L>(options));
+  }
+
+  /**
+   * Run fn before every scrape, to sample values such as memory usage
+   */
+  onCollect(fn: () => void) {
+    this.collectors.push(fn);
+  }
+
+  render() {
+    this.collectors.forEach((collect) => collect());
+
+    return (
+      Array.from(this.metrics.values())
+        .map((metric) => metric.render())
+        .join("\n") + "\n"
+    );
+  }
+
+  private register<M extends RegisteredMetric>(metric: M) {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { Hono } from "hono";
+import { accessLog } from "./access-log";
+import { authMiddleware } from "./auth";
+import { errorHandler } from "./error-handler";
+import { logger } from "./logger";
+import { requestContextMiddleware } from "./request-context";
+
+const app = new Hono();
+app.use(requestContextMiddleware);
+app.use(
+  accessLog({
+    sampleRate: 1,
+    excludePaths: ["/health"],
+    levels: { "404": "info", "4xx": "warn", "5xx": "error" },
+  })
+);
+app.onError(errorHandler);
+
+app.get("/health", (c) => c.text("ok"));
+app.get("/public", (c) => c.json({ ok: true }));
+app.get("/private", authMiddleware, (c) => c.json({ ok: true }));
+app.get("/broken", () => {
+  throw new Error("database is down");
+});
+
+let entries: {
+  level: string;
+  message: string;
+  data?: Record<string, unknown>;
+}[];
+
+beforeEach(() => {
+  entries = [];
+  for (const level of ["debug", "info", "warn", "error"] as const) {
+    spyOn(logger, level).mockImplementation((message, data) => {
+      if (level !== "debug") entries.push({ level, message, data });
+    });
+  }
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("accessLog", () => {
+  test("writes one entry per request", async () => {
+    await app.request("/public");
+
+    expect(entries).toEqual([
+      {
+        level: "info",
+        message: expect.stringMatching(/^GET \/public 200 \d+ms$/),
+        data: expect.objectContaining({
+          method: "GET",
+          route: "/public",
+          status: 200,
+          responseBytes: 11,
+          error: undefined,
+        }),
+      },
+    ]);
+  });
+
+  test("is the only entry for a client error, and says why", async () => {
+    const res = await app.request("/private");
+    expect(res.status).toBe(401);
+
+    expect(entries).toEqual([
+      {
+        level: "warn",
+        message: expect.stringMatching(/^GET \/private 401 /),
+        data: expect.objectContaining({ status: 401, error: "Unauthorized" }),
+      },
+    ]);
+  });
+
+  test("leaves the stack of server errors to the error handler", async () => {
+    await app.request("/broken");
+
+    expect(entries.map(({ level, message }) => [level, message])).toEqual([
+      ["error", "Request failed - Server error"],
+      ["error", expect.stringMatching(/^GET \/broken 500 /)],
+    ]);
+    expect(entries[1].data?.error).toBe("database is down");
+  });
+
+  test("skips excluded paths", async () => {
+    await app.request("/health");
+
+    expect(entries).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import type { Context, Next } from "hono";
+import { config } from "@/config";
+import type { LogLevel } from "@/logger";
+import { logger } from "./logger";
+import { getRoutePattern } from "./request-context";
+
+export interface AccessLogOptions {
+  // Share of requests logged, from 0 to 1. Requests logged as warn or
+  // error are always kept.
+  sampleRate: number;
+  // Paths never logged; a trailing * matches a prefix, e.g. /fp/*
+  excludePaths: readonly string[];
+  // Level per status code or class, e.g. { "404": "info", "4xx": "warn" }
+  levels: Readonly<Record<string, LogLevel>>;
+}
+
+// Bodies Hono builds in memory (c.json, c.text), cheap to measure
+const MEASURABLE_TYPE = /^(application\/([\w.+-]+\+)?json|text\/plain)/;
+
+const isExcluded = (path: string, excludePaths: readonly string[]) =>
+  excludePaths.some((excluded) =>
+    excluded.endsWith("*")
+      ? path.startsWith(excluded.slice(0, -1))
+      : path === excluded
+  );
+
+const levelFor = (status: number, levels: AccessLogOptions["levels"]) =>
+  levels[status] ?? levels[`${Math.floor(status / 100)}xx`] ?? "info";
+
+// Streamed bodies without a Content-Length are left unmeasured
+const responseSize = async (res: Response) => {
+  const contentLength = res.headers.get("content-length");
+
+  if (contentLength) return Number(contentLength);
+  if (!res.body) return 0;
+
+  if (MEASURABLE_TYPE.test(res.headers.get("content-type") ?? "")) {
+    return (await res.clone().arrayBuffer()).byteLength;
+  }
+};
+
+/**
+ * One entry per request, written once the response is produced, errors
+ * included. Mount it right after requestContextMiddleware.
+ */
+export const accessLog =
+  (
+    { sampleRate, excludePaths, levels }: AccessLogOptions = config.log.access
+  ) =>
+  async (c: Context, next: Next) => {
+    if (isExcluded(c.req.path, excludePaths)) {
+      await next();
+      return;
+    }
+
+    const start = performance.now();
+
+    await next();
+
+    const status = c.res.status;
+    const level = levelFor(status, levels);
+
+    if (level !== "warn" && level !== "error" && Math.random() >= sampleRate) {
+      return;
+    }
+
+    const durationMs = Math.round(performance.now() - start);
+    const route = getRoutePattern(c);
+
+    logger[level](
+      `${c.req.method} ${route ?? c.req.path} ${status} ${durationMs}ms`,
+      {
+        method: c.req.method,
+        route,
+        path: c.req.path,
+        status,
+        durationMs,
+        responseBytes: await responseSize(c.res),
+        userId: c.get("userId"),
+        // Why it failed, for responses rendered by the error handler
+        error: c.error?.message,
+      }
+    );
+  };
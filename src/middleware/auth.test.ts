@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { mockPrisma } from "@/test/prisma";
+import { hashToken } from "@/modules/auth/auth.utils";
+import { SessionService } from "@/modules/auth/session.service";
+import { authMiddleware, requireScope, requireSession } from "./auth";
+import { errorHandler } from "./error-handler";
+
+type SessionRow = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  previousTokenHash: string | null;
+  rotatedAt: Date | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+type TokenRow = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  scopes: string[];
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+// Just enough of prisma.session and prisma.personalAccessToken
+const sessions = new Map<string, SessionRow>();
+const tokens = new Map<string, TokenRow>();
+
+mockPrisma({
+  session: {
+    findUnique: async ({ where }: { where: { id: string } }) => {
+      const row = sessions.get(where.id);
+      return row ? { ...row } : null;
+    },
+    create: async ({ data }: { data: SessionRow }) => {
+      sessions.set(data.id, {
+        ...data,
+        previousTokenHash: null,
+        rotatedAt: null,
+        revokedAt: null,
+      });
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { id: string; tokenHash?: string };
+      data: Partial<SessionRow>;
+    }) => {
+      const row = sessions.get(where.id);
+      const matches =
+        row &&
+        !row.revokedAt &&
+        (!where.tokenHash || row.tokenHash === where.tokenHash);
+      if (matches) Object.assign(row, data);
+      return { count: matches ? 1 : 0 };
+    },
+  },
+  personalAccessToken: {
+    findUnique: async ({ where }: { where: { tokenHash: string } }) =>
+      tokens.get(where.tokenHash) ?? null,
+    updateMany: async () => ({ count: 1 }),
+  },
+});
+
+const sessionService = new SessionService();
+
+const app = new Hono();
+app.onError(errorHandler);
+
+const whoami = (c: import("hono").Context) =>
+  c.json({
+    userId: c.get("userId"),
+    sessionId: c.get("sessionId") ?? null,
+    authMethod: c.get("authMethod"),
+    tokenScopes: c.get("tokenScopes") ?? null,
+  });
+
+app.get("/me", authMiddleware, whoami);
+app.get("/users", authMiddleware, requireScope("users:read"), whoami);
+app.get("/sessions", authMiddleware, requireSession, whoami);
+
+const get = (path: string, headers: Record<string, string> = {}) =>
+  app.request(path, { headers });
+
+const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+// A personal access token as the user would hold it
+const createPat = (overrides: Partial<TokenRow> = {}) => {
+  const token = `hpat_${crypto.randomUUID()}`;
+  tokens.set(hashToken(token), {
+    id: crypto.randomUUID(),
+    userId: "user-1",
+    tokenHash: hashToken(token),
+    scopes: ["users:read"],
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+    ...overrides,
+  });
+  return token;
+};
+
+let session: Awaited<ReturnType<SessionService["create"]>>;
+
+beforeEach(async () => {
+  session = await sessionService.create("user-1");
+});
+
+describe("bearer access tokens", () => {
+  test("authenticate with the token's session", async () => {
+    const res = await get("/me", bearer(session.accessToken));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      userId: "user-1",
+      sessionId: session.sessionId,
+      authMethod: "bearer",
+      tokenScopes: null,
+    });
+  });
+
+  test("stop working once the session is revoked", async () => {
+    await sessionService.revoke(session.sessionId);
+
+    expect((await get("/me", bearer(session.accessToken))).status).toBe(401);
+  });
+
+  test.each([
+    ["a refresh token", () => session.refreshToken],
+    ["a malformed token", () => "not-a-jwt"],
+  ])("reject %s", async (_, token) => {
+    expect((await get("/me", bearer(token()))).status).toBe(401);
+  });
+
+  test("are never refreshed, even with a refresh cookie", async () => {
+    const res = await get("/me", {
+      ...bearer("not-a-jwt"),
+      cookie: `refreshToken=${session.refreshToken}`,
+    });
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get("set-cookie")).toBeNull();
+  });
+
+  test("take precedence over cookies", async () => {
+    const other = await sessionService.create("user-2");
+    const res = await get("/me", {
+      ...bearer(session.accessToken),
+      cookie: `accessToken=${other.accessToken}`,
+    });
+
+    expect(await res.json()).toMatchObject({ userId: "user-1" });
+  });
+});
+
+describe("personal access tokens", () => {
+  test("authenticate with their scopes and no session", async () => {
+    const res = await get("/me", bearer(createPat()));
+
+    expect(await res.json()).toEqual({
+      userId: "user-1",
+      sessionId: null,
+      authMethod: "pat",
+      tokenScopes: ["users:read"],
+    });
+  });
+
+  test.each([
+    ["revoked", { revokedAt: new Date() }],
+    ["expired", { expiresAt: new Date(Date.now() - 1000) }],
+  ])("reject %s tokens", async (_, overrides) => {
+    expect((await get("/me", bearer(createPat(overrides)))).status).toBe(401);
+  });
+
+  test("reject unknown tokens", async () => {
+    expect((await get("/me", bearer("hpat_unknown"))).status).toBe(401);
+  });
+});
+
+describe("requireScope", () => {
+  test("admits tokens with the scope", async () => {
+    expect((await get("/users", bearer(createPat()))).status).toBe(200);
+  });
+
+  test("rejects tokens without it", async () => {
+    const token = createPat({ scopes: ["profile:read"] });
+
+    const res = await get("/users", bearer(token));
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      detail: "Token is missing the users:read scope",
+    });
+  });
+
+  test("does not limit sessions", async () => {
+    expect((await get("/users", bearer(session.accessToken))).status).toBe(200);
+  });
+});
+
+describe("requireSession", () => {
+  test("rejects personal access tokens whatever their scopes", async () => {
+    const token = createPat({
+      scopes: ["profile:read", "profile:write", "users:read", "users:write"],
+    });
+
+    expect((await get("/sessions", bearer(token))).status).toBe(403);
+  });
+
+  test("admits bearer and cookie sessions", async () => {
+    expect((await get("/sessions", bearer(session.accessToken))).status).toBe(
+      200
+    );
+    expect(
+      (await get("/sessions", { cookie: `accessToken=${session.accessToken}` }))
+        .status
+    ).toBe(200);
+  });
+});
+
+describe("cookies", () => {
+  test("refresh an invalid access token from the refresh cookie", async () => {
+    const res = await get("/me", {
+      cookie: `accessToken=expired; refreshToken=${session.refreshToken}`,
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ authMethod: "cookie" });
+    expect(res.headers.get("set-cookie")).toContain("refreshToken=");
+  });
+
+  test("are required when there is no Authorization header", async () => {
+    expect((await get("/me")).status).toBe(401);
+  });
+});
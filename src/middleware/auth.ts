@@ -1,31 +1,130 @@
-import { Context } from "hono";
-import * as jwt from "jsonwebtoken";
-import { getCookie, setCookie } from "hono/cookie";
+import { Context, Next } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
 import { logger } from "./logger";
-import { cookieOptions } from "@/modules/auth/auth.utils";
+import { traced } from "./tracing";
+import { cookieOptions, getSessionMeta } from "@/modules/auth/auth.utils";
+import { SessionService } from "@/modules/auth/session.service";
+import { TokenService } from "@/modules/auth/token.service";
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokenService,
+} from "@/modules/auth/personal-access-token.service";
+import type { TokenScope } from "@/modules/auth/auth.schema";
+import { ForbiddenError, UnauthorizedError } from "@/shared/errors";
+import { metrics } from "@/metrics";
+
+/**
+ * How the request was authenticated:
+ * - cookie: accessToken/refreshToken cookies
+ * - bearer: an access token in the Authorization header
+ * - pat: a personal access token in the Authorization header
+ */
+export type AuthMethod = "cookie" | "bearer" | "pat";
+
+// Extend Hono's context type with the authenticated identity
+declare module "hono" {
+  interface ContextVariableMap {
+    userId: string;
+    // Only set for session-backed auth (cookie and bearer)
+    sessionId: string | undefined;
+    authMethod: AuthMethod;
+    // Only set for personal access tokens
+    tokenScopes: string[] | undefined;
+  }
+}
+
+const sessionService = new SessionService();
+const personalAccessTokenService = new PersonalAccessTokenService();
+const tokenService = new TokenService();
+
+type AccessTokenPayload = {
+  sid: string;
+};
+
+const tokenRefreshes = metrics.counter({
+  name: "auth_token_refreshes_total",
+  help: "Access token refreshes from the refresh cookie by result",
+  labelNames: ["result"],
+});
+
+export const getBearerToken = (c: Context) => {
+  const header = c.req.header("authorization");
+  if (!header) return undefined;
+
+  const [scheme, token] = header.split(" ");
+  return scheme.toLowerCase() === "bearer" && token ? token : undefined;
+};
+
+// Authorization: Bearer <jwt | personal access token>. Never refreshed.
+const authenticateBearer = async (c: Context, next: Next, token: string) => {
+  if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+    const pat = await personalAccessTokenService.authenticate(token);
+
+    if (!pat) {
+      logger.debug("Auth failed - Invalid personal access token", {}, c);
+      throw new UnauthorizedError();
+    }
+
+    c.set("userId", pat.userId);
+    c.set("sessionId", undefined);
+    c.set("authMethod", "pat");
+    c.set("tokenScopes", pat.scopes);
+    await next();
+    return;
+  }
+
+  let decoded: { sub: string } & AccessTokenPayload;
+  try {
+    decoded = await tokenService.verify<AccessTokenPayload>("access", token);
+  } catch (error) {
+    logger.debug(
+      "Auth failed - Invalid bearer token",
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      c
+    );
+    throw new UnauthorizedError();
+  }
+
+  // Revoking a session ends its access tokens too, not just the refresh
+  if (!(await sessionService.isActive(decoded.sid))) {
+    logger.debug("Auth failed - Session revoked or expired", {}, c);
+    throw new UnauthorizedError();
+  }
+
+  c.set("userId", decoded.sub);
+  c.set("sessionId", decoded.sid);
+  c.set("authMethod", "bearer");
+  c.set("tokenScopes", undefined);
+
+  await next();
+};
+
+const authenticate = async (c: Context, next: Next) => {
+  // An Authorization header takes precedence over cookies
+  const bearerToken = getBearerToken(c);
+  if (bearerToken) {
+    return await authenticateBearer(c, next, bearerToken);
+  }
 
-export const authMiddleware = async (c: Context, next: () => Promise<void>) => {
   const accessToken = getCookie(c, "accessToken");
   const refreshToken = getCookie(c, "refreshToken");
 
   // No tokens at all
   if (!accessToken && !refreshToken) {
-    logger.warn("Auth failed - No tokens provided", {}, c);
-    return c.json({ error: "Unauthorized" }, 401);
+    logger.debug("Auth failed - No tokens provided", {}, c);
+    throw new UnauthorizedError();
   }
 
   // Try access token first
   if (accessToken) {
+    let decoded: ({ sub: string } & AccessTokenPayload) | undefined;
     try {
-      const decoded = jwt.verify(
-        accessToken,
-        process.env.ACCESS_TOKEN_SECRET as string
-      ) as {
-        id: string;
-      };
-      c.set("userId", decoded.id);
-      await next();
-      return;
+      decoded = await tokenService.verify<AccessTokenPayload>(
+        "access",
+        accessToken
+      );
     } catch (error) {
       // Access token is invalid/expired, try refresh token
       logger.debug(
@@ -36,45 +135,103 @@ export const authMiddleware = async (c: Context, next: () => Promise<void>) => {
         c
       );
     }
+
+    // Tokens of a revoked session fall through to the refresh, which fails
+    if (decoded && (await sessionService.isActive(decoded.sid))) {
+      c.set("userId", decoded.sub);
+      c.set("sessionId", decoded.sid);
+      c.set("authMethod", "cookie");
+      c.set("tokenScopes", undefined);
+      await next();
+      return;
+    }
   }
 
   // Try refresh token
   if (refreshToken) {
     try {
-      const decoded = jwt.verify(
+      // Rotate the refresh token and issue a new access token
+      const session = await sessionService.rotate(
         refreshToken,
-        process.env.REFRESH_TOKEN_SECRET as string
-      ) as {
-        id: string;
-      };
-
-      // Generate new access token
-      const newAccessToken = jwt.sign(
-        { id: decoded.id },
-        process.env.ACCESS_TOKEN_SECRET as string,
-        { expiresIn: "1h" }
+        getSessionMeta(c)
       );
 
-      // Set new access token cookie
-      setCookie(c, "accessToken", newAccessToken, cookieOptions.access);
+      setCookie(c, "accessToken", session.accessToken, cookieOptions.access);
+      // Null when a concurrent request already rotated it, whose response
+      // sets the cookie
+      if (session.refreshToken) {
+        setCookie(
+          c,
+          "refreshToken",
+          session.refreshToken,
+          cookieOptions.refresh
+        );
+      }
 
-      c.set("userId", decoded.id);
+      c.set("userId", session.userId);
+      c.set("sessionId", session.sessionId);
+      c.set("authMethod", "cookie");
+      c.set("tokenScopes", undefined);
 
-      logger.info("Token refreshed successfully", { userId: decoded.id }, c);
-      await next();
-      return;
-    } catch (error) {
-      logger.warn(
-        "Auth failed - Invalid refresh token",
-        {
-          error: error instanceof Error ? error.message : "Unknown error",
-        },
+      tokenRefreshes.inc({ result: "success" });
+      logger.info(
+        "Token refreshed successfully",
+        { userId: session.userId, sessionId: session.sessionId },
         c
       );
+    } catch (error) {
+      // Invalid refresh token, or reuse detected and the session revoked
+      if (!(error instanceof UnauthorizedError)) throw error;
+
+      tokenRefreshes.inc({ result: "failure" });
+      logger.debug(`Auth failed - ${error.message}`, {}, c);
+
+      deleteCookie(c, "accessToken", cookieOptions.access);
+      deleteCookie(c, "refreshToken", cookieOptions.refresh);
+      throw new UnauthorizedError();
     }
+
+    await next();
+    return;
   }
 
   // Both tokens failed
-  logger.warn("Auth failed - All tokens invalid", {}, c);
-  return c.json({ error: "Unauthorized" }, 401);
+  logger.debug("Auth failed - All tokens invalid", {}, c);
+  throw new UnauthorizedError();
+};
+
+export const authMiddleware = traced("authMiddleware", authenticate);
+
+/**
+ * Middleware to limit personal access tokens to the given scope.
+ * Session-backed auth (cookie and bearer) carries the user's full access.
+ * Use this after authMiddleware.
+ */
+export const requireScope =
+  (scope: TokenScope) => async (c: Context, next: Next) => {
+    if (
+      c.get("authMethod") === "pat" &&
+      !c.get("tokenScopes")?.includes(scope)
+    ) {
+      logger.debug("Access denied - Missing token scope", { scope }, c);
+      throw new ForbiddenError(`Token is missing the ${scope} scope`);
+    }
+
+    await next();
+  };
+
+/**
+ * Middleware to reject personal access tokens, for routes that manage
+ * credentials (sessions, 2FA, tokens) and so need a real login.
+ * Use this after authMiddleware.
+ */
+export const requireSession = async (c: Context, next: Next) => {
+  if (c.get("authMethod") === "pat" || !c.get("sessionId")) {
+    logger.debug("Access denied - Session required", {}, c);
+    throw new ForbiddenError(
+      "This endpoint cannot be used with a personal access token"
+    );
+  }
+
+  await next();
 };
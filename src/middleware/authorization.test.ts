@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { Hono, type ContextVariableMap } from "hono";
+import type { Role } from "@prisma/client";
+import { requirePermission } from "./authorization";
+import { errorHandler } from "./error-handler";
+
+type TestUser = { id: string; role: Role; permissions: string[] };
+
+// Members may edit themselves, like PUT /users/:id
+const appFor = (user: TestUser) => {
+  const app = new Hono();
+  app.onError(errorHandler);
+  app.use("/*", async (c, next) => {
+    c.set("user", user as ContextVariableMap["user"]);
+    await next();
+  });
+  app.put(
+    "/users/:id",
+    requirePermission("users:update", { owner: (c) => c.req.param("id") }),
+    (c) => c.json({ success: true })
+  );
+  app.delete("/users/:id", requirePermission("users:delete"), (c) =>
+    c.json({ success: true })
+  );
+  return app;
+};
+
+const member: TestUser = { id: "member-1", role: "MEMBER", permissions: [] };
+const admin: TestUser = { id: "admin-1", role: "ADMIN", permissions: [] };
+
+const status = async (user: TestUser, method: string, path: string) =>
+  (await appFor(user).request(path, { method })).status;
+
+describe("requirePermission", () => {
+  test("lets roles holding the permission through", async () => {
+    expect(await status(admin, "PUT", "/users/member-1")).toBe(200);
+    expect(await status(admin, "DELETE", "/users/member-1")).toBe(200);
+  });
+
+  test("lets permissions granted to the user through", async () => {
+    const editor = { ...member, permissions: ["users:update"] };
+
+    expect(await status(editor, "PUT", "/users/other")).toBe(200);
+  });
+
+  test("forbids users without the permission", async () => {
+    const res = await appFor(member).request("/users/other", {
+      method: "PUT",
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      detail: "Missing permission: users:update",
+    });
+  });
+
+  test("lets the owner through without the permission", async () => {
+    expect(await status(member, "PUT", "/users/member-1")).toBe(200);
+  });
+
+  test("does not make owners of routes without an owner rule", async () => {
+    expect(await status(member, "DELETE", "/users/member-1")).toBe(403);
+  });
+});
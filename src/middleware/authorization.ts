@@ -0,0 +1,40 @@
+import type { Context, Next } from "hono";
+import { logger } from "./logger";
+import { getUser } from "./user-injection";
+import { hasPermission, type Permission } from "@/shared/permissions";
+import { ForbiddenError } from "@/shared/errors";
+
+type PermissionOptions = {
+  /**
+   * Returns the id of the user who owns the resource. The owner is let
+   * through without the permission, e.g. members editing themselves.
+   */
+  owner?: (c: Context) => string | undefined;
+};
+
+/**
+ * Middleware to allow only users holding the given permission
+ * Use this after injectUser, e.g. per route:
+ * createRoute({ middleware: [requirePermission("users:delete")] })
+ */
+export const requirePermission =
+  (permission: Permission, options: PermissionOptions = {}) =>
+  async (c: Context, next: Next) => {
+    const user = getUser(c);
+
+    if (options.owner && options.owner(c) === user.id) {
+      await next();
+      return;
+    }
+
+    if (!hasPermission(user, permission)) {
+      logger.debug(
+        "Access denied - Missing permission",
+        { userId: user.id, role: user.role, permission },
+        c
+      );
+      throw new ForbiddenError(`Missing permission: ${permission}`);
+    }
+
+    await next();
+  };
@@ -0,0 +1,108 @@
+import type { Context, ErrorHandler, NotFoundHandler } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { z } from "@hono/zod-openapi";
+import { Prisma } from "@prisma/client";
+import { trace } from "@opentelemetry/api";
+import { logger } from "./logger";
+import { recordError } from "@/tracing";
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/shared/errors";
+
+// Known Prisma request errors that are the client's doing
+const fromPrismaError = (error: Prisma.PrismaClientKnownRequestError) => {
+  const model = (error.meta?.modelName as string | undefined) ?? "Record";
+
+  switch (error.code) {
+    // Unique constraint failed
+    case "P2002": {
+      const target = error.meta?.target;
+      const fields = Array.isArray(target) ? target.join(", ") : target;
+
+      return new ConflictError(
+        fields
+          ? `${model} with this ${fields} already exists`
+          : `${model} already exists`,
+        { cause: error }
+      );
+    }
+    // Record to update or delete does not exist
+    case "P2025":
+      return new NotFoundError(`${model} not found`, { cause: error });
+  }
+};
+
+/**
+ * Turn anything thrown into an AppError. Errors that are not recognised
+ * become a 500 that reveals nothing about them.
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof z.ZodError) return ValidationError.fromZod(error);
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    const mapped = fromPrismaError(error);
+    if (mapped) return mapped;
+  }
+
+  // Thrown by Hono itself, e.g. for a malformed JSON body
+  if (error instanceof HTTPException && error.status < 500) {
+    return new AppError(error.status, error.message, { cause: error });
+  }
+
+  return new AppError(500, "An unexpected error occurred", { cause: error });
+};
+
+/**
+ * Render an error as an application/problem+json response
+ */
+export const problemResponse = (c: Context, error: AppError) => {
+  const { requestId } = logger.getRequestContext(c);
+
+  const problem = {
+    type: "about:blank",
+    title: error.title,
+    status: error.status,
+    detail: error.message,
+    instance: c.req.path,
+    requestId,
+    ...error.extensions,
+  };
+
+  return c.body(JSON.stringify(problem), error.status, {
+    ...error.headers,
+    "Content-Type": "application/problem+json",
+  });
+};
+
+/**
+ * The app's single error handler: app.onError(errorHandler).
+ * Handlers and middleware throw instead of building error responses.
+ */
+export const errorHandler: ErrorHandler = (err, c) => {
+  const error = toAppError(err);
+
+  // Client errors are logged once, in the request's access log entry
+  if (error.status >= 500) {
+    const span = trace.getActiveSpan();
+    if (span) recordError(span, err);
+
+    logger.error(
+      "Request failed - Server error",
+      {
+        error: err instanceof Error ? err.message : err,
+        stack: err instanceof Error ? err.stack : undefined,
+      },
+      c
+    );
+  }
+
+  return problemResponse(c, error);
+};
+
+export const notFoundHandler: NotFoundHandler = (c) =>
+  problemResponse(c, new NotFoundError("Route not found"));
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { errorHandler } from "./error-handler";
+import { etag, getIfMatchVersion, preconditionFailed, toETag } from "./etag";
+
+// A single resource whose version is bumped on every write
+let resource: { version: string; name: string } | null;
+let writes = 0;
+
+// Lets a test hold writes until several requests have passed If-Match
+let beforeWrite = async () => {};
+
+const app = new Hono();
+app.onError(errorHandler);
+
+const resourceVersion = etag(() => resource?.version);
+
+app.get("/resource", resourceVersion, (c) =>
+  resource ? c.json(resource) : c.json({ error: "not found" }, 404)
+);
+
+app.put("/resource", resourceVersion, async (c) => {
+  const expected = getIfMatchVersion(c);
+  const { name } = await c.req.json<{ name: string }>();
+  await beforeWrite();
+
+  // The conditional write, as updateMany({ where: { updatedAt } }) does it
+  if (!resource) return c.json({ error: "not found" }, 404);
+  if (expected && resource.version !== expected) {
+    throw preconditionFailed(resource.version);
+  }
+
+  resource = { version: `v${++writes + 1}`, name };
+  return c.json({ ...resource, expected: expected ?? null });
+});
+
+const put = (ifMatch: string | undefined, name = "updated") =>
+  app.request("/resource", {
+    method: "PUT",
+    headers: {
+      "content-type": "application/json",
+      ...(ifMatch ? { "if-match": ifMatch } : {}),
+    },
+    body: JSON.stringify({ name }),
+  });
+
+beforeEach(() => {
+  resource = { version: "v1", name: "original" };
+  writes = 0;
+  beforeWrite = async () => {};
+});
+
+describe("toETag", () => {
+  test("quotes strings and encodes dates compactly", () => {
+    expect(toETag("v1")).toBe('"v1"');
+    expect(toETag(new Date(1700000000000))).toBe('"loyw3v28"');
+  });
+});
+
+describe("reads", () => {
+  test("send the ETag", async () => {
+    const res = await app.request("/resource");
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("etag")).toBe('"v1"');
+  });
+
+  test.each(['"v1"', 'W/"v1"', '"v0", "v1"', "*"])(
+    "answer If-None-Match: %s with 304",
+    async (ifNoneMatch) => {
+      const res = await app.request("/resource", {
+        headers: { "if-none-match": ifNoneMatch },
+      });
+
+      expect(res.status).toBe(304);
+      expect(res.headers.get("etag")).toBe('"v1"');
+      expect(await res.text()).toBe("");
+    }
+  );
+
+  test("return the body for a stale If-None-Match", async () => {
+    const res = await app.request("/resource", {
+      headers: { "if-none-match": '"v0"' },
+    });
+
+    expect(res.status).toBe(200);
+  });
+
+  test("skip the ETag when there is no resource", async () => {
+    resource = null;
+    const res = await app.request("/resource");
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get("etag")).toBeNull();
+  });
+});
+
+describe("writes", () => {
+  test("with a matching If-Match succeed and return the new ETag", async () => {
+    const res = await put('"v1"');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("etag")).toBe('"v2"');
+    expect(await res.json()).toMatchObject({ expected: "v1" });
+  });
+
+  test("with a stale If-Match get 412 and the current ETag", async () => {
+    const res = await put('"v0"');
+
+    expect(res.status).toBe(412);
+    expect(res.headers.get("etag")).toBe('"v1"');
+    expect(resource?.name).toBe("original");
+  });
+
+  test("compare If-Match strongly", async () => {
+    expect((await put('W/"v1"')).status).toBe(412);
+  });
+
+  test.each([undefined, "*"])(
+    "with If-Match %p are not made conditional",
+    async (ifMatch) => {
+      const res = await put(ifMatch);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ expected: null });
+    }
+  );
+
+  test("racing on the same ETag let only the first one through", async () => {
+    // Hold both writes until both requests are past the If-Match check
+    let waiting = 0;
+    let release = () => {};
+    const bothChecked = new Promise<void>((resolve) => (release = resolve));
+    beforeWrite = async () => {
+      if (++waiting === 2) release();
+      await bothChecked;
+    };
+
+    const [first, second] = await Promise.all([
+      put('"v1"', "first"),
+      put('"v1"', "second"),
+    ]);
+
+    expect([first.status, second.status]).toEqual([200, 412]);
+    expect(second.headers.get("etag")).toBe('"v2"');
+    expect(resource?.name).toBe("first");
+  });
+});
@@ -1,83 +1,72 @@
-import { existsSync, mkdirSync, appendFileSync } from "fs";
-import { join } from "path";
 import type { Context } from "hono";
+import { config } from "@/config";
+import {
+  logRedactor,
+  logTransports,
+  type LogEntry,
+  type LogLevel,
+  type LogTransport,
+} from "@/logger";
+import {
+  createRequestContext,
+  currentRequestContext,
+  type RequestContext,
+} from "./request-context";
+import { currentTraceIds } from "@/tracing";
+
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
 
-type LogLevel = "info" | "warn" | "error" | "debug";
-
-interface LogEntry {
-  timestamp: string;
-  level: LogLevel;
-  message: string;
-  data?: any;
-  requestId?: string;
-  ip?: string;
-  userAgent?: string;
-  method?: string;
-  url?: string;
-}
-
-interface RequestContext {
-  requestId: string;
-  ip: string;
-  userAgent: string;
-  method: string;
-  url: string;
-  startTime: number;
-}
+export type { RequestContext };
+
+// The request fields every entry logged during a request carries
+const toLogMeta = ({
+  requestId,
+  ip,
+  userAgent,
+  method,
+  url,
+}: RequestContext): Partial<LogEntry> => ({
+  requestId,
+  ip,
+  userAgent,
+  method,
+  url,
+});
 
 class Logger {
-  private logsDir: string;
-
-  constructor() {
-    this.logsDir = join(process.cwd(), "logs");
-    this.ensureLogsDirectory();
-  }
-
-  // Extract request context from Hono context
-  private getRequestContext(c: Context): RequestContext {
-    const existing = c.get("requestContext");
+  constructor(
+    private readonly transports: LogTransport[],
+    // Entries below this level are dropped
+    private readonly minLevel: LogLevel,
+    // Masks secrets and personal data before anything is written
+    private readonly redact: (entry: LogEntry) => LogEntry
+  ) {}
+
+  // Request context set by requestContextMiddleware, created on the spot
+  // for apps that do not mount it
+  getRequestContext(c: Context): RequestContext {
+    const existing = c.get("requestContext") ?? currentRequestContext();
     if (existing) return existing;
 
-    const requestContext: RequestContext = {
-      requestId: crypto.randomUUID(),
-      ip:
-        c.req.header("x-forwarded-for") ||
-        c.req.header("x-real-ip") ||
-        "unknown",
-      userAgent: c.req.header("user-agent") || "unknown",
-      method: c.req.method,
-      url: c.req.url,
-      startTime: Date.now(),
-    };
-
+    const requestContext = createRequestContext(c);
     c.set("requestContext", requestContext);
     return requestContext;
   }
 
-  private ensureLogsDirectory() {
-    if (!existsSync(this.logsDir)) {
-      mkdirSync(this.logsDir, { recursive: true });
-    }
-  }
-
-  private formatLog(entry: LogEntry): string {
-    const logData = {
-      ...entry,
-      timestamp: new Date().toISOString(),
-    };
-    return JSON.stringify(logData) + "\n";
+  private toMeta(context?: Context | Partial<LogEntry>) {
+    return context && typeof context === "object" && "req" in context
+      ? toLogMeta(this.getRequestContext(context))
+      : context;
   }
 
-  private writeToFile(level: LogLevel, content: string) {
-    const today = new Date().toISOString().split("T")[0];
-    const filename = `${today}-${level}.log`;
-    const filepath = join(this.logsDir, filename);
-
-    try {
-      appendFileSync(filepath, content);
-    } catch (error) {
-      console.error("Failed to write to log file:", error);
-    }
+  // Write out anything the transports still buffer, e.g. before exiting
+  async flush() {
+    await Promise.all(this.transports.map((transport) => transport.flush?.()));
   }
 
   private log(
@@ -86,114 +75,48 @@ class Logger {
     data?: any,
     meta?: Partial<LogEntry>
   ) {
-    const entry: LogEntry = {
+    if (LEVEL_SEVERITY[level] < LEVEL_SEVERITY[this.minLevel]) return;
+
+    // Entries logged while handling a request carry its context, without
+    // the caller passing it along
+    const context = currentRequestContext();
+
+    const entry = this.redact({
       timestamp: new Date().toISOString(),
       level,
       message,
       data,
+      ...(context && toLogMeta(context)),
+      ...currentTraceIds(),
       ...meta,
-    };
-
-    // Console output with colors
-    const colors = {
-      info: "\x1b[36m", // Cyan
-      warn: "\x1b[33m", // Yellow
-      error: "\x1b[31m", // Red
-      debug: "\x1b[35m", // Magenta
-    };
-    const reset = "\x1b[0m";
-
-    const formattedMessage = `${colors[level]}[${entry.timestamp}] ${level.toUpperCase()}: ${message}${reset}`;
-    console.log(formattedMessage, data ? data : "");
-
-    // Write to file
-    this.writeToFile(level, this.formatLog(entry));
+    });
 
-    // Also write to combined log
-    this.writeToFile("info" as LogLevel, this.formatLog(entry));
+    for (const transport of this.transports) {
+      try {
+        transport.write(entry);
+      } catch (error) {
+        console.error("Failed to write log entry:", error);
+      }
+    }
   }
 
   // Context-aware logging methods
   info(message: string, data?: any, context?: Context | Partial<LogEntry>) {
-    const meta =
-      context && typeof context === "object" && "req" in context
-        ? this.getRequestContext(context)
-        : context;
-    this.log("info", message, data, meta);
+    this.log("info", message, data, this.toMeta(context));
   }
 
   warn(message: string, data?: any, context?: Context | Partial<LogEntry>) {
-    const meta =
-      context && typeof context === "object" && "req" in context
-        ? this.getRequestContext(context)
-        : context;
-    this.log("warn", message, data, meta);
+    this.log("warn", message, data, this.toMeta(context));
   }
 
   error(message: string, data?: any, context?: Context | Partial<LogEntry>) {
-    const meta =
-      context && typeof context === "object" && "req" in context
-        ? this.getRequestContext(context)
-        : context;
-    this.log("error", message, data, meta);
+    this.log("error", message, data, this.toMeta(context));
   }
 
   debug(message: string, data?: any, context?: Context | Partial<LogEntry>) {
-    if (process.env.NODE_ENV === "development") {
-      const meta =
-        context && typeof context === "object" && "req" in context
-          ? this.getRequestContext(context)
-          : context;
-      this.log("debug", message, data, meta);
-    }
-  }
-
-  // Auto-track HTTP requests
-  requestFromContext(c: Context, statusCode: number) {
-    const ctx = this.getRequestContext(c);
-    const responseTime = Date.now() - ctx.startTime;
-
-    this.request(ctx.method, ctx.url, statusCode, responseTime, {
-      ip: ctx.ip,
-      userAgent: ctx.userAgent,
-      requestId: ctx.requestId,
-    });
-  }
-
-  // HTTP request logger
-  request(
-    method: string,
-    url: string,
-    statusCode: number,
-    responseTime: number,
-    meta?: {
-      ip?: string;
-      userAgent?: string;
-      requestId?: string;
-    }
-  ) {
-    const level: LogLevel =
-      statusCode >= 400 ? "error" : statusCode >= 300 ? "warn" : "info";
-    const message = `${method} ${url} - ${statusCode} - ${responseTime}ms`;
-
-    this.log(
-      level,
-      message,
-      {
-        method,
-        url,
-        statusCode,
-        responseTime,
-      },
-      meta
-    );
+    this.log("debug", message, data, this.toMeta(context));
   }
 }
 
 // Export singleton instance
-export const logger = new Logger();
-
-// Backward compatibility
-export const customLogger = (message: string, ...rest: string[]) => {
-  logger.info(message, rest.length > 0 ? rest : undefined);
-};
+export const logger = new Logger(logTransports, config.log.level, logRedactor);
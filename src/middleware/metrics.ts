@@ -0,0 +1,36 @@
+import type { Context, Next } from "hono";
+import { metrics } from "@/metrics";
+import { getRoutePattern } from "./request-context";
+
+const LABEL_NAMES = ["method", "route", "status"] as const;
+
+const httpRequests = metrics.counter({
+  name: "http_requests_total",
+  help: "HTTP requests served",
+  labelNames: LABEL_NAMES,
+});
+
+const httpRequestDuration = metrics.histogram({
+  name: "http_request_duration_seconds",
+  help: "Time to produce HTTP responses in seconds",
+  labelNames: LABEL_NAMES,
+});
+
+/**
+ * Counts and times every request by route template, method and status.
+ * Unmatched paths share one route label to keep the series bounded.
+ */
+export const metricsMiddleware = async (c: Context, next: Next) => {
+  const endTimer = httpRequestDuration.startTimer();
+
+  await next();
+
+  const labels = {
+    method: c.req.method,
+    route: getRoutePattern(c) ?? "unmatched",
+    status: c.res.status,
+  };
+
+  httpRequests.inc(labels);
+  endTimer(labels);
+};
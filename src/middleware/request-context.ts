@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Context, Next } from "hono";
+import { getConnInfo } from "hono/bun";
+import { matchedRoutes, routePath } from "hono/route";
+import { config } from "@/config";
+
+export interface RequestContext {
+  requestId: string;
+  ip: string;
+  userAgent: string;
+  method: string;
+  url: string;
+  startTime: number;
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    requestContext: RequestContext;
+  }
+}
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Upstream IDs are logged and echoed back, so only accept plain tokens
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+const socketAddress = (c: Context) => {
+  try {
+    return getConnInfo(c).remote.address?.replace(/^::ffff:/, "");
+  } catch {
+    // No server behind the request, e.g. app.fetch() in tests
+    return undefined;
+  }
+};
+
+/**
+ * Address of the client. Clients can put anything in X-Forwarded-For, so
+ * only the entries appended by the TRUST_PROXY_HOPS proxies in front of
+ * the app count: the client is the address the outermost of them saw.
+ * Without trusted proxies it is the socket's peer.
+ */
+export const getClientIp = (c: Context) => {
+  const forwarded = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean)
+    .reverse();
+  const addresses = [socketAddress(c) ?? "unknown", ...forwarded];
+
+  return addresses[Math.min(config.proxy.trustedHops, addresses.length - 1)];
+};
+
+export const createRequestContext = (c: Context): RequestContext => {
+  const upstreamId = c.req.header(REQUEST_ID_HEADER);
+
+  return {
+    requestId:
+      upstreamId && REQUEST_ID_PATTERN.test(upstreamId)
+        ? upstreamId
+        : crypto.randomUUID(),
+    ip: getClientIp(c),
+    userAgent: c.req.header("user-agent") || "unknown",
+    method: c.req.method,
+    url: c.req.url,
+    startTime: Date.now(),
+  };
+};
+
+/**
+ * Route template that served the request, e.g. /api/v1/users/:id, for
+ * logs and metrics that must not hold one entry per ID. Read it after
+ * next(). Undefined when nothing matched.
+ */
+export const getRoutePattern = (c: Context) => {
+  // Middleware is registered for every method, handlers for one
+  const handler = matchedRoutes(c)
+    .filter((route) => route.method !== "ALL")
+    .pop();
+
+  if (handler) return handler.path;
+
+  // Static files are served by middleware
+  return c.res.status === 404 ? undefined : routePath(c);
+};
+
+/**
+ * Context of the request being handled, wherever in its call chain this
+ * runs. Undefined outside a request, e.g. in scripts.
+ */
+export const currentRequestContext = () => storage.getStore();
+
+/**
+ * Takes X-Request-Id from the caller or generates one, echoes it on the
+ * response and makes the request context available to everything the
+ * request runs through currentRequestContext(). Mount it first.
+ */
+export const requestContextMiddleware = async (c: Context, next: Next) => {
+  const context = createRequestContext(c);
+
+  c.set("requestContext", context);
+
+  await storage.run(context, next);
+
+  c.header(REQUEST_ID_HEADER, context.requestId);
+};
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { Hono } from "hono";
+import { instrumentQuery } from "@/prisma/instrumentation";
+import { memorySpanExporter } from "@/tracing";
+import { errorHandler } from "./error-handler";
+import { requestContextMiddleware } from "./request-context";
+import { traced, tracingMiddleware } from "./tracing";
+
+// The caller's trace, as a W3C traceparent header
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_SPAN_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`;
+
+// Stands in for the query Prisma would run
+let query = async (args: { where: { id: string } }) => ({
+  id: args.where.id,
+});
+
+const app = new Hono();
+app.use(requestContextMiddleware);
+app.use(tracingMiddleware);
+app.onError(errorHandler);
+
+app.get(
+  "/users/:id",
+  traced("auth", async (c, next) => {
+    c.set("userId", "user-1");
+    await next();
+  }),
+  async (c) => {
+    const user = await instrumentQuery({
+      model: "User",
+      operation: "findUnique",
+      args: { where: { id: c.req.param("id") } },
+      query: (args) => query(args),
+    });
+    return c.json(user);
+  }
+);
+
+const spans = () => memorySpanExporter.getFinishedSpans();
+
+const spanNamed = (name: string) => {
+  const span = spans().find((span) => span.name === name);
+  expect(span).toBeDefined();
+  return span as ReadableSpan;
+};
+
+const parentSpanId = (span: ReadableSpan) => span.parentSpanContext?.spanId;
+
+beforeEach(() => {
+  memorySpanExporter.reset();
+  query = async (args) => ({ id: args.where.id });
+});
+
+describe("request tracing", () => {
+  test("records the request, middleware and query spans", async () => {
+    const res = await app.request("/users/42", {
+      headers: { traceparent: TRACEPARENT },
+    });
+    expect(res.status).toBe(200);
+
+    const server = spanNamed("GET /users/:id");
+    const middleware = spanNamed("middleware - auth");
+    const prisma = spanNamed("prisma User.findUnique");
+
+    expect(spans()).toHaveLength(3);
+    expect(server.kind).toBe(SpanKind.SERVER);
+    expect(server.attributes).toMatchObject({
+      "http.request.method": "GET",
+      "http.route": "/users/:id",
+      "url.path": "/users/42",
+      "http.response.status_code": 200,
+      "enduser.id": "user-1",
+    });
+    expect(prisma.attributes).toMatchObject({
+      "db.system.name": "postgresql",
+      "db.operation.name": "findUnique",
+      "db.collection.name": "User",
+    });
+
+    // One trace, continued from the caller
+    for (const span of spans()) {
+      expect(span.spanContext().traceId).toBe(TRACE_ID);
+    }
+    expect(parentSpanId(server)).toBe(PARENT_SPAN_ID);
+    expect(parentSpanId(middleware)).toBe(server.spanContext().spanId);
+    // traced() ends its span at next(), so the query is not nested in it
+    expect(parentSpanId(prisma)).toBe(server.spanContext().spanId);
+  });
+
+  test("starts a new trace without a traceparent", async () => {
+    await app.request("/users/42");
+
+    const server = spanNamed("GET /users/:id");
+    expect(server.spanContext().traceId).not.toBe(TRACE_ID);
+    expect(parentSpanId(server)).toBeUndefined();
+  });
+
+  test("marks failed queries and the request as errors", async () => {
+    query = async () => {
+      throw new Error("connection refused");
+    };
+
+    const res = await app.request("/users/42");
+    expect(res.status).toBe(500);
+
+    const server = spanNamed("GET /users/:id");
+    const prisma = spanNamed("prisma User.findUnique");
+
+    expect(prisma.status.code).toBe(SpanStatusCode.ERROR);
+    expect(prisma.events.map(({ name }) => name)).toEqual(["exception"]);
+    expect(server.status.code).toBe(SpanStatusCode.ERROR);
+    expect(server.attributes["http.response.status_code"]).toBe(500);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type TextMapGetter,
+} from "@opentelemetry/api";
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { recordError, tracer } from "@/tracing";
+import { getRoutePattern } from "./request-context";
+
+const headerGetter: TextMapGetter<Headers> = {
+  keys: (headers) => {
+    const keys: string[] = [];
+    headers.forEach((_, key) => keys.push(key));
+    return keys;
+  },
+  get: (headers, key) => headers.get(key) ?? undefined,
+};
+
+/**
+ * Opens the server span of a request, continuing the caller's trace when
+ * it sends a W3C traceparent header. Mount it right after
+ * requestContextMiddleware so everything below, logs included, runs
+ * inside the span.
+ */
+export const tracingMiddleware = async (c: Context, next: Next) => {
+  const parent = propagation.extract(
+    ROOT_CONTEXT,
+    c.req.raw.headers,
+    headerGetter
+  );
+
+  const span = tracer.startSpan(
+    c.req.method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        "http.request.method": c.req.method,
+        "url.path": c.req.path,
+      },
+    },
+    parent
+  );
+
+  await context.with(trace.setSpan(parent, span), next);
+
+  // Known only once routing is done
+  const route = getRoutePattern(c);
+  if (route) {
+    span.updateName(`${c.req.method} ${route}`);
+    span.setAttribute("http.route", route);
+  }
+
+  const userId = c.get("userId");
+  if (userId) span.setAttribute("enduser.id", userId);
+
+  span.setAttribute("http.response.status_code", c.res.status);
+  if (c.res.status >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+
+  span.end();
+};
+
+/**
+ * Wrap a middleware in a span covering its own work, up to the point it
+ * calls next(). What runs after it is traced as a sibling, not a child.
+ */
+export const traced =
+  (name: string, middleware: MiddlewareHandler) =>
+  async (c: Context, next: Next) => {
+    const parent = context.active();
+    const span = tracer.startSpan(`middleware - ${name}`, {}, parent);
+    let ended = false;
+
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      span.end();
+    };
+
+    try {
+      return await context.with(trace.setSpan(parent, span), () =>
+        middleware(c, () => {
+          end();
+          return context.with(parent, next);
+        })
+      );
+    } catch (error) {
+      if (!ended) recordError(span, error);
+      throw error;
+    } finally {
+      end();
+    }
+  };
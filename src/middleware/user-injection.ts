@@ -1,14 +1,23 @@
 import type { Context, Next } from "hono";
 import { prisma } from "@/prisma";
 import { logger } from "./logger";
+import { traced } from "./tracing";
 import { ProfileService } from "@/modules/profile/profile.service";
+import type { Role } from "@prisma/client";
+import { ForbiddenError, UnauthorizedError } from "@/shared/errors";
 
 // Extend Hono's context type to include user
 declare module "hono" {
   interface ContextVariableMap {
     user: {
       id: string;
+      name: string;
+      surname: string;
       email: string;
+      avatarUrl: string | null;
+      emailVerifiedAt: Date | null;
+      role: Role;
+      permissions: string[];
       createdAt: Date;
       updatedAt: Date;
     };
@@ -21,39 +30,42 @@ const profileService = new ProfileService();
  * Middleware to inject authenticated user into context
  * Use this after auth middleware to automatically populate user data
  */
-export const injectUser = async (c: Context, next: Next) => {
-  try {
+export const injectUser = traced(
+  "injectUser",
+  async (c: Context, next: Next) => {
     // Get user ID from auth middleware (assuming it sets userId)
     const userId = c.get("userId");
 
     if (!userId) {
       logger.warn("User injection failed - No user ID in context", {}, c);
-      return c.json({ error: "Unauthorized" }, 401);
+      throw new UnauthorizedError();
     }
 
+    // Throws NotFoundError for deleted users
     const user = await profileService.getProfile(userId);
 
-    if ("error" in user) {
-      logger.warn("User injection failed - User not found", { userId });
-      return c.json({ error: "User not found" }, 404);
-    }
-
     // Inject user into context
     c.set("user", user);
 
     logger.debug("User injected into context", { userId: user.id }, c);
 
     await next();
-  } catch (error) {
-    logger.error(
-      "User injection middleware error",
-      {
-        error: error instanceof Error ? error.message : error,
-      },
-      c
-    );
-    return c.json({ error: "Internal server error" }, 500);
   }
+);
+
+/**
+ * Middleware to reject users who have not verified their email yet
+ * Use this after injectUser, e.g. per route: createRoute({ middleware: [requireVerifiedEmail] })
+ */
+export const requireVerifiedEmail = async (c: Context, next: Next) => {
+  const user = getUser(c);
+
+  if (!user.emailVerifiedAt) {
+    logger.warn("Access denied - Email not verified", { userId: user.id }, c);
+    throw new ForbiddenError("Email not verified");
+  }
+
+  await next();
 };
 
 /**
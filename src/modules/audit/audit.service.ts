@@ -0,0 +1,66 @@
+import { prisma } from "@/prisma";
+import type { Prisma } from "@prisma/client";
+import { logger } from "@/middleware/logger";
+
+export const AUDIT_ACTIONS = [
+  "register",
+  "login",
+  "logout",
+  "password.changed",
+  "password.reset",
+  "2fa.enabled",
+  "2fa.disabled",
+  "2fa.recovery_codes_regenerated",
+  "token.created",
+  "token.revoked",
+  "profile.updated",
+  "avatar.updated",
+  "account.deleted",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditContext = {
+  ip?: string;
+  userAgent?: string;
+  metadata?: Prisma.InputJsonObject;
+};
+
+export class AuditService {
+  /**
+   * Append an event to the user's audit trail. Never throws: a lost entry
+   * must not fail the action being audited.
+   */
+  async record(
+    userId: string,
+    action: AuditAction,
+    { ip, userAgent, metadata }: AuditContext = {}
+  ) {
+    try {
+      await prisma.auditEvent.create({
+        data: { userId, action, ip, userAgent, metadata },
+      });
+    } catch (error) {
+      logger.error("Failed to record audit event", {
+        userId,
+        action,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  async listForUser(userId: string) {
+    return await prisma.auditEvent.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        action: true,
+        ip: true,
+        userAgent: true,
+        metadata: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { AuditService, AUDIT_ACTIONS } from "./audit.service";
+export type { AuditAction, AuditContext } from "./audit.service";
@@ -1,17 +1,36 @@
 import { AuthService } from "./auth.service";
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
-import { errorSchema, successSchema } from "@/shared/api";
-import { LoginSchema, RegisterSchema } from "./auth.schema";
+import { defaultHook, errorSchema, successSchema } from "@/shared/api";
+import {
+  ForgotPasswordSchema,
+  LoginChallengeSchema,
+  LoginSchema,
+  RegisterSchema,
+  ResendVerificationSchema,
+  ResetPasswordSchema,
+  SessionParamsSchema,
+  SessionSchema,
+  TwoFactorLoginSchema,
+  VerifyEmailSchema,
+} from "./auth.schema";
 import { logger } from "@/middleware/logger";
 import { deleteCookie, getCookie, setCookie } from "hono/cookie";
-import { cookieOptions } from "./auth.utils";
-import { authMiddleware } from "@/middleware/auth";
+import { cookieOptions, getSessionMeta } from "./auth.utils";
+import { authMiddleware, requireSession } from "@/middleware/auth";
+import { SessionService } from "./session.service";
+import { PasswordResetService } from "./password-reset.service";
+import { EmailVerificationService } from "./email-verification.service";
 
 const authService = new AuthService();
+const sessionService = new SessionService();
+const passwordResetService = new PasswordResetService();
+const emailVerificationService = new EmailVerificationService();
 
-export const authController = new OpenAPIHono();
+export const authController = new OpenAPIHono({ defaultHook });
 
-authController.use("/logout", authMiddleware);
+authController.use("/logout", authMiddleware, requireSession);
+authController.use("/logout-all", authMiddleware, requireSession);
+authController.use("/sessions/*", authMiddleware, requireSession);
 
 // POST /auth/login - Login a user
 authController.openapi(
@@ -21,6 +40,7 @@ authController.openapi(
     path: "/login",
     request: {
       body: {
+        required: true,
         content: {
           "application/json": {
             schema: LoginSchema,
@@ -29,34 +49,44 @@ authController.openapi(
       },
     },
     responses: {
-      201: {
-        description: "User logged in successfully",
+      200: {
+        description:
+          "Password accepted, a two-factor code is required to finish logging in",
         content: {
           "application/json": {
-            schema: successSchema(),
+            schema: successSchema(LoginChallengeSchema),
           },
         },
       },
-      404: {
-        description: "User not registered",
+      201: {
+        description: "User logged in successfully",
         content: {
           "application/json": {
-            schema: errorSchema,
+            schema: successSchema(),
           },
         },
       },
       400: {
         description: "Invalid request data",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
       },
       401: {
-        description: "Invalid password",
+        description: "Invalid credentials",
         content: {
-          "application/json": {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      429: {
+        description:
+          "Too many failed attempts, retry after the Retry-After header",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -64,7 +94,7 @@ authController.openapi(
       500: {
         description: "Failed to login user",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -72,63 +102,109 @@ authController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const body = await c.req.json();
-
-      logger.info("Login attempt", { email: body.email }, c);
-
-      const { accessToken, refreshToken } = await authService.login(body);
-
-      setCookie(c, "accessToken", accessToken, cookieOptions.access);
-      setCookie(c, "refreshToken", refreshToken, cookieOptions.refresh);
-
-      logger.requestFromContext(c, 201);
-      logger.info("Login successful", { email: body.email }, c);
-
-      return c.json({ success: true }, 201);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        logger.warn(
-          "Login failed - Invalid request data",
-          { error: error.issues },
-          c
-        );
-        logger.requestFromContext(c, 400);
-        return c.json({ error: "Invalid request data" }, 400);
-      }
-
-      if (error instanceof Error && error.cause === "User not registered") {
-        logger.warn(
-          "Login failed - User not registered",
-          { message: error.message },
-          c
-        );
-        logger.requestFromContext(c, 404);
-        return c.json({ error: "User not registered" }, 404);
-      }
-
-      if (error instanceof Error && error.cause === "Invalid password") {
-        logger.warn(
-          "Login failed - Invalid password",
-          { message: error.message },
-          c
-        );
-        logger.requestFromContext(c, 401);
-        return c.json({ error: "Invalid password" }, 401);
-      }
-
-      logger.error(
-        "Login failed - Server error",
+    const body = c.req.valid("json");
+
+    logger.info("Login attempt", { email: body.email }, c);
+
+    const result = await authService.login(body, getSessionMeta(c));
+
+    // No cookies until the second factor is verified
+    if (result.twoFactorRequired) {
+      logger.info("Login requires two-factor code", { email: body.email }, c);
+
+      return c.json(
         {
-          error: error instanceof Error ? error.message : error,
-          stack: error instanceof Error ? error.stack : undefined,
+          success: true,
+          data: {
+            twoFactorRequired: true as const,
+            challengeToken: result.challengeToken,
+          },
         },
-        c
+        200
       );
-      logger.requestFromContext(c, 500);
-
-      return c.json({ error: "Failed to login user" }, 500);
     }
+
+    setCookie(c, "accessToken", result.accessToken, cookieOptions.access);
+    setCookie(c, "refreshToken", result.refreshToken, cookieOptions.refresh);
+
+    logger.info("Login successful", { email: body.email }, c);
+
+    return c.json({ success: true }, 201);
+  }
+);
+
+// POST /auth/login/2fa - Finish a login with a two-factor code
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "post",
+    path: "/login/2fa",
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: TwoFactorLoginSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: "User logged in successfully",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      400: {
+        description: "Invalid request data",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      401: {
+        description:
+          "Invalid, expired or already used challenge, or invalid code",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      429: {
+        description: "Too many wrong codes, retry after the Retry-After header",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to login user",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const body = c.req.valid("json");
+
+    const { userId, accessToken, refreshToken } =
+      await authService.completeTwoFactorLogin(body, getSessionMeta(c));
+
+    setCookie(c, "accessToken", accessToken, cookieOptions.access);
+    setCookie(c, "refreshToken", refreshToken, cookieOptions.refresh);
+
+    logger.info("Two-factor login successful", { userId }, c);
+
+    return c.json({ success: true }, 201);
   }
 );
 
@@ -140,6 +216,7 @@ authController.openapi(
     path: "/register",
     request: {
       body: {
+        required: true,
         content: {
           "application/json": {
             schema: RegisterSchema,
@@ -159,7 +236,7 @@ authController.openapi(
       400: {
         description: "Invalid request data",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -167,7 +244,7 @@ authController.openapi(
       409: {
         description: "User already exists",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -175,7 +252,7 @@ authController.openapi(
       500: {
         description: "Failed to create user",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -183,63 +260,30 @@ authController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const body = await c.req.json();
+    const body = c.req.valid("json");
 
-      logger.info("Registration attempt", { email: body.email }, c);
+    logger.info("Registration attempt", { email: body.email }, c);
 
-      const { user, accessToken, refreshToken } =
-        await authService.register(body);
+    const { user, accessToken, refreshToken } = await authService.register(
+      body,
+      getSessionMeta(c)
+    );
 
-      setCookie(c, "accessToken", accessToken, cookieOptions.access);
-      setCookie(c, "refreshToken", refreshToken, cookieOptions.refresh);
+    setCookie(c, "accessToken", accessToken, cookieOptions.access);
+    setCookie(c, "refreshToken", refreshToken, cookieOptions.refresh);
 
-      logger.requestFromContext(c, 201);
-      logger.info(
-        "Registration successful",
-        { userId: user.id, email: user.email },
-        c
-      );
+    logger.info(
+      "Registration successful",
+      { userId: user.id, email: user.email },
+      c
+    );
 
-      return c.json(
-        {
-          success: true,
-        },
-        201
-      );
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        logger.warn(
-          "Registration failed - Invalid request data",
-          { error: error.issues },
-          c
-        );
-        logger.requestFromContext(c, 400);
-        return c.json({ error: "Invalid request data" }, 400);
-      }
-
-      if (error instanceof Error && error.cause === "User already exists") {
-        logger.warn(
-          "Registration failed - User already exists",
-          { message: error.message },
-          c
-        );
-        logger.requestFromContext(c, 409);
-        return c.json({ error: "User already exists" }, 409);
-      }
-
-      logger.error(
-        "Registration failed - Server error",
-        {
-          error: error instanceof Error ? error.message : error,
-          stack: error instanceof Error ? error.stack : undefined,
-        },
-        c
-      );
-      logger.requestFromContext(c, 500);
-
-      return c.json({ error: "Failed to create user" }, 500);
-    }
+    return c.json(
+      {
+        success: true,
+      },
+      201
+    );
   }
 );
 
@@ -261,15 +305,149 @@ authController.openapi(
       400: {
         description: "No user logged in",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
       },
       500: {
         description: "Failed to logout user",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    // Revoke the session server-side so its refresh token stops working
+    const sessionId = c.get("sessionId");
+    if (sessionId) {
+      await authService.logout(c.get("userId"), sessionId, getSessionMeta(c));
+    }
+
+    deleteCookie(c, "accessToken", cookieOptions.access);
+    deleteCookie(c, "refreshToken", cookieOptions.refresh);
+
+    logger.info("User logged out successfully", c);
+
+    return c.json({ success: true }, 201);
+  }
+);
+
+// POST /auth/logout-all - Revoke every session of the user
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "post",
+    path: "/logout-all",
+    responses: {
+      201: {
+        description:
+          "All sessions revoked successfully, their access tokens stop working too",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      500: {
+        description: "Failed to revoke sessions",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const userId = c.get("userId");
+    const revoked = await sessionService.revokeAll(userId);
+
+    deleteCookie(c, "accessToken", cookieOptions.access);
+    deleteCookie(c, "refreshToken", cookieOptions.refresh);
+
+    logger.info("All sessions revoked", { userId, revoked }, c);
+
+    return c.json({ success: true }, 201);
+  }
+);
+
+// GET /auth/sessions - List active sessions of the user
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "get",
+    path: "/sessions",
+    responses: {
+      200: {
+        description: "Sessions fetched successfully",
         content: {
           "application/json": {
+            schema: successSchema(z.array(SessionSchema)),
+          },
+        },
+      },
+      500: {
+        description: "Failed to fetch sessions",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const currentSessionId = c.get("sessionId");
+    const sessions = await sessionService.listActive(c.get("userId"));
+
+    return c.json(
+      {
+        success: true,
+        data: sessions.map((session) => ({
+          ...session,
+          current: session.id === currentSessionId,
+        })),
+      },
+      200
+    );
+  }
+);
+
+// DELETE /auth/sessions/:id - Revoke one session of the user
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "delete",
+    path: "/sessions/:id",
+    request: {
+      params: SessionParamsSchema,
+    },
+    responses: {
+      200: {
+        description:
+          "Session revoked successfully, its access tokens stop working too",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      404: {
+        description: "Session not found",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to revoke session",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -277,19 +455,232 @@ authController.openapi(
     },
   }),
   async (c) => {
-    try {
+    const { id } = c.req.valid("param");
+    const userId = c.get("userId");
+
+    await sessionService.revokeForUser(userId, id);
+
+    // Revoking the calling session signs this client out as well
+    if (id === c.get("sessionId")) {
       deleteCookie(c, "accessToken", cookieOptions.access);
       deleteCookie(c, "refreshToken", cookieOptions.refresh);
+    }
 
-      logger.requestFromContext(c, 201);
-      logger.info("User logged out successfully", c);
+    logger.info("Session revoked", { userId, sessionId: id }, c);
 
-      return c.json({ success: true }, 201);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return c.json({ error: "Invalid request data" }, 400);
-      }
-      return c.json({ error: "Failed to update user" }, 500);
-    }
+    return c.json({ success: true }, 200);
+  }
+);
+
+// POST /auth/password/forgot - Send a password reset link
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "post",
+    path: "/password/forgot",
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: ForgotPasswordSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Reset link sent if the email belongs to an account",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      400: {
+        description: "Invalid request data",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to request password reset",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const body = c.req.valid("json");
+
+    await passwordResetService.requestReset(body);
+
+    // Same answer whether or not the account exists
+    return c.json({ success: true }, 200);
+  }
+);
+
+// POST /auth/password/reset - Set a new password using a reset token
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "post",
+    path: "/password/reset",
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: ResetPasswordSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description:
+          "Password reset, every session signed out and personal access token revoked",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      400: {
+        description: "Invalid request data or invalid/expired reset token",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to reset password",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const body = c.req.valid("json");
+
+    await passwordResetService.resetPassword(body, getSessionMeta(c));
+
+    return c.json({ success: true }, 200);
+  }
+);
+
+// POST /auth/verify-email - Confirm ownership of the email address
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "post",
+    path: "/verify-email",
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: VerifyEmailSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Email verified successfully",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      400: {
+        description:
+          "Invalid request data or invalid/expired verification token",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to verify email",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const body = c.req.valid("json");
+
+    await emailVerificationService.verify(body);
+
+    return c.json({ success: true }, 200);
+  }
+);
+
+// POST /auth/verify-email/resend - Send a new verification link
+authController.openapi(
+  createRoute({
+    tags: ["Auth"],
+    method: "post",
+    path: "/verify-email/resend",
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: ResendVerificationSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description:
+          "Verification link sent if the email belongs to an unverified account",
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+      },
+      400: {
+        description: "Invalid request data",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to resend verification email",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const body = c.req.valid("json");
+
+    await emailVerificationService.resend(body);
+
+    // Same answer whether or not the account exists
+    return c.json({ success: true }, 200);
   }
 );
@@ -1,18 +1,165 @@
 import { z } from "@hono/zod-openapi";
+import { passwordSchema } from "./password";
 
 const LoginSchema = z.object({
   email: z.email().describe("The email of the user"),
-  password: z.string().min(6).describe("The password of the user"),
+  // Not checked against the policy, older passwords may predate it
+  password: z.string().min(1).describe("The password of the user"),
 });
 
 const RegisterSchema = z.object({
   email: z.email().describe("The email of the user"),
-  password: z.string().min(6).describe("The password of the user"),
+  password: passwordSchema.describe("The password of the user"),
   name: z.string().min(1).describe("The name of the user"),
   surname: z.string().min(1).describe("The surname of the user"),
 });
 
-export { LoginSchema, RegisterSchema };
+const LoginChallengeSchema = z.object({
+  twoFactorRequired: z
+    .literal(true)
+    .describe("The account uses two-factor authentication"),
+  challengeToken: z
+    .string()
+    .describe("Pass this to /auth/login/2fa together with a code"),
+});
+
+const TwoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1).describe("The challenge from /auth/login"),
+  code: z
+    .string()
+    .min(1)
+    .describe("A code from the authenticator app or a recovery code"),
+});
+
+const TwoFactorCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1)
+    .describe("A code from the authenticator app or a recovery code"),
+});
+
+const TwoFactorEnrollmentSchema = z.object({
+  secret: z.string().describe("The base32 TOTP secret for manual entry"),
+  otpauthUrl: z.string().describe("The otpauth:// URI to render as a QR code"),
+});
+
+const RecoveryCodesSchema = z.object({
+  recoveryCodes: z
+    .array(z.string())
+    .describe("One-time recovery codes. They are shown only once"),
+});
+
+const ForgotPasswordSchema = z.object({
+  email: z.email().describe("The email of the user"),
+});
+
+const ResetPasswordSchema = z.object({
+  token: z.string().min(1).describe("The reset token from the email"),
+  password: passwordSchema.describe("The new password of the user"),
+});
+
+const VerifyEmailSchema = z.object({
+  token: z.string().min(1).describe("The verification token from the email"),
+});
+
+const ResendVerificationSchema = z.object({
+  email: z.email().describe("The email of the user"),
+});
+
+const TOKEN_SCOPES = [
+  "profile:read",
+  "profile:write",
+  "users:read",
+  "users:write",
+] as const;
+
+const TokenScopeSchema = z.enum(TOKEN_SCOPES).describe("A token scope");
+
+const PersonalAccessTokenSchema = z.object({
+  id: z.string().describe("The id of the token"),
+  name: z.string().describe("The name of the token"),
+  prefix: z.string().describe("The first characters of the token"),
+  scopes: z.array(z.string()).describe("What the token may access"),
+  expiresAt: z.date().describe("When the token expires"),
+  lastUsedAt: z.date().nullable().describe("When the token was last used"),
+  createdAt: z.date().describe("When the token was created"),
+});
+
+const CreatePersonalAccessTokenSchema = z.object({
+  name: z.string().min(1).max(100).describe("The name of the token"),
+  scopes: z
+    .array(TokenScopeSchema)
+    .min(1)
+    .describe("What the token may access"),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .default(30)
+    .describe("Days until the token expires"),
+});
+
+const CreatedPersonalAccessTokenSchema = PersonalAccessTokenSchema.extend({
+  token: z
+    .string()
+    .describe("The token itself. It is shown only once, store it safely"),
+});
+
+const TokenParamsSchema = z.object({
+  id: z.string().describe("The id of the token"),
+});
+
+const SessionSchema = z.object({
+  id: z.string().describe("The id of the session"),
+  userAgent: z
+    .string()
+    .nullable()
+    .describe("The user agent of the device that owns the session"),
+  ip: z.string().nullable().describe("The last IP address seen"),
+  createdAt: z.date().describe("When the session was started"),
+  lastUsedAt: z.date().describe("When the session was last refreshed"),
+  expiresAt: z.date().describe("When the session expires"),
+  current: z.boolean().describe("Whether this is the calling session"),
+});
+
+const SessionParamsSchema = z.object({
+  id: z.string().describe("The id of the session"),
+});
+
+export {
+  TOKEN_SCOPES,
+  LoginSchema,
+  RegisterSchema,
+  LoginChallengeSchema,
+  TwoFactorLoginSchema,
+  TwoFactorCodeSchema,
+  TwoFactorEnrollmentSchema,
+  RecoveryCodesSchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema,
+  ResendVerificationSchema,
+  SessionSchema,
+  SessionParamsSchema,
+  TokenScopeSchema,
+  PersonalAccessTokenSchema,
+  CreatePersonalAccessTokenSchema,
+  CreatedPersonalAccessTokenSchema,
+  TokenParamsSchema,
+};
 
 export type LoginInput = z.infer<typeof LoginSchema>;
 export type RegisterInput = z.infer<typeof RegisterSchema>;
+export type TwoFactorLoginInput = z.infer<typeof TwoFactorLoginSchema>;
+export type TwoFactorCodeInput = z.infer<typeof TwoFactorCodeSchema>;
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof VerifyEmailSchema>;
+export type ResendVerificationInput = z.infer<typeof ResendVerificationSchema>;
+export type Session = z.infer<typeof SessionSchema>;
+export type TokenScope = z.infer<typeof TokenScopeSchema>;
+export type PersonalAccessToken = z.infer<typeof PersonalAccessTokenSchema>;
+export type CreatePersonalAccessTokenInput = z.infer<
+  typeof CreatePersonalAccessTokenSchema
+>;
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { mockPrisma } from "@/test/prisma";
+import { UnauthorizedError } from "@/shared/errors";
+import { AuthService } from "./auth.service";
+import { LoginLockedError } from "./login-throttle.service";
+import { hashPassword } from "./password";
+
+const PASSWORD = "correct horse battery staple";
+const passwordHash = hashPassword(PASSWORD);
+
+const USERS = ["jane@example.com", "john@example.com"];
+
+mockPrisma({
+  user: {
+    findUnique: async ({ where }: { where: { email: string } }) =>
+      USERS.includes(where.email)
+        ? {
+            id: `user-${USERS.indexOf(where.email)}`,
+            email: where.email,
+            password: await passwordHash,
+            twoFactorEnabledAt: null,
+          }
+        : null,
+  },
+  session: { create: async () => ({}) },
+  auditEvent: { create: async () => ({}) },
+});
+
+const authService = new AuthService();
+
+describe("login", () => {
+  test("signs in with the right password", async () => {
+    const result = await authService.login({
+      email: "john@example.com",
+      password: PASSWORD,
+    });
+
+    expect(result).toMatchObject({ twoFactorRequired: false });
+  });
+
+  test("checks at most 5 passwords of a parallel burst", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 30 }, (_, i) =>
+        authService.login(
+          { email: "jane@example.com", password: `guess-${i}` },
+          { ip: "203.0.113.7" }
+        )
+      )
+    );
+    const errors = results.map((result) =>
+      result.status === "rejected" ? result.reason : result
+    );
+
+    expect(
+      errors.filter((error) => error instanceof UnauthorizedError)
+    ).toHaveLength(5);
+    expect(
+      errors.filter((error) => error instanceof LoginLockedError)
+    ).toHaveLength(25);
+
+    // Locked out now, even with the right password
+    await expect(
+      authService.login({ email: "jane@example.com", password: PASSWORD })
+    ).rejects.toBeInstanceOf(LoginLockedError);
+  });
+});
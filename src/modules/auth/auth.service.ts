@@ -1,102 +1,184 @@
 import { prisma } from "@/prisma";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
-import { RegisterInput } from "./auth.schema";
-import { Prisma } from "@prisma/client";
+import { RegisterInput, TwoFactorLoginInput } from "./auth.schema";
+import { SessionService, type SessionMeta } from "./session.service";
+import { EmailVerificationService } from "./email-verification.service";
+import { TwoFactorService } from "./two-factor.service";
+import {
+  LoginLockedError,
+  LoginThrottleService,
+} from "./login-throttle.service";
+import { logger } from "@/middleware/logger";
+import { randomUUID } from "crypto";
+import { hashPassword, needsRehash } from "./password";
+import { AuditService } from "@/modules/audit/audit.service";
+import { UnauthorizedError } from "@/shared/errors";
+import { metrics } from "@/metrics";
+
+const sessionService = new SessionService();
+const emailVerificationService = new EmailVerificationService();
+const twoFactorService = new TwoFactorService();
+const loginThrottleService = new LoginThrottleService();
+const auditService = new AuditService();
+
+const logins = metrics.counter({
+  name: "auth_logins_total",
+  help: "Login attempts by result: success, failure, locked or two_factor_required",
+  labelNames: ["result"],
+});
+
+let dummyHash: Promise<string> | undefined;
+const getDummyHash = () => (dummyHash ??= hashPassword(randomUUID()));
 
 export class AuthService {
-  async login({ email, password }: { email: string; password: string }) {
+  async login(
+    { email, password }: { email: string; password: string },
+    meta: SessionMeta = {}
+  ) {
+    const throttleTarget = { email, ip: meta.ip };
+
+    // Counted before the password check, see reserveAttempt()
+    try {
+      await loginThrottleService.reserveAttempt(throttleTarget);
+    } catch (error) {
+      logins.inc({ result: "locked" });
+      throw error;
+    }
+
+    // Deleted accounts fail exactly like unknown ones
     const user = await prisma.user.findUnique({
-      where: { email },
+      where: { email, deletedAt: null },
     });
 
-    if (!user) {
-      throw new Error("User not registered", {
-        cause: "User not registered",
-      });
-    }
+    // Compare against a dummy hash for unknown emails so the response time
+    // does not reveal whether the account exists
+    const isPasswordValid = await bcrypt.compare(
+      password,
+      user?.password || (await getDummyHash())
+    );
 
-    if (!user.password) {
-      throw new Error("Invalid password", {
-        cause: "Invalid password",
-      });
+    if (!user || !isPasswordValid) {
+      await loginThrottleService.recordFailure(throttleTarget);
+      logins.inc({ result: "failure" });
+      throw new UnauthorizedError("Invalid credentials");
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    await loginThrottleService.recordSuccess(throttleTarget);
 
-    if (!isPasswordValid) {
-      throw new Error("Invalid password", {
-        cause: "Invalid password",
-      });
+    // Upgrade hashes made with an older bcrypt cost while we have the password
+    if (needsRehash(user.password)) {
+      try {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { password: await hashPassword(password) },
+        });
+        logger.info("Password rehashed with current cost", { userId: user.id });
+      } catch (error) {
+        logger.error("Failed to rehash password", {
+          userId: user.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
     }
 
-    const accessToken = jwt.sign(
-      { id: user.id },
-      process.env.ACCESS_TOKEN_SECRET!,
-      {
-        expiresIn: "1h",
-      }
-    );
-    const refreshToken = jwt.sign(
-      { id: user.id },
-      process.env.REFRESH_TOKEN_SECRET!,
-      {
-        expiresIn: "7d",
-      }
+    // With 2FA on, the password only earns a challenge for the second step
+    if (user.twoFactorEnabledAt) {
+      logins.inc({ result: "two_factor_required" });
+      return {
+        twoFactorRequired: true as const,
+        challengeToken: await twoFactorService.createChallenge(user.id),
+      };
+    }
+
+    const { accessToken, refreshToken } = await sessionService.create(
+      user.id,
+      meta
     );
 
-    return { accessToken, refreshToken };
+    await auditService.record(user.id, "login", meta);
+    logins.inc({ result: "success" });
+
+    return { twoFactorRequired: false as const, accessToken, refreshToken };
   }
 
-  async register({ email, password, name, surname }: RegisterInput) {
+  async completeTwoFactorLogin(
+    { challengeToken, code }: TwoFactorLoginInput,
+    meta: SessionMeta = {}
+  ) {
+    let userId: string;
+
     try {
-      // Hash password
-      const hashedPassword = await bcrypt.hash(password, 12);
-
-      // Create user
-      const user = await prisma.user.create({
-        data: {
-          email,
-          password: hashedPassword,
-          name,
-          surname,
-        },
+      userId = await twoFactorService.verifyChallenge(challengeToken, code);
+    } catch (error) {
+      logins.inc({
+        result: error instanceof LoginLockedError ? "locked" : "failure",
       });
+      throw error;
+    }
 
-      // Generate tokens
-      const accessToken = jwt.sign(
-        { id: user.id },
-        process.env.ACCESS_TOKEN_SECRET!,
-        {
-          expiresIn: "1h",
-        }
-      );
-      const refreshToken = jwt.sign(
-        { id: user.id },
-        process.env.REFRESH_TOKEN_SECRET!,
-        {
-          expiresIn: "7d",
-        }
-      );
+    const { accessToken, refreshToken } = await sessionService.create(
+      userId,
+      meta
+    );
 
-      return {
-        user: {
-          id: user.id,
-          email: user.email,
-          createdAt: user.createdAt,
-        },
-        accessToken,
-        refreshToken,
-      };
+    await auditService.record(userId, "login", {
+      ...meta,
+      metadata: { twoFactor: true },
+    });
+    logins.inc({ result: "success" });
+
+    return { userId, accessToken, refreshToken };
+  }
+
+  async register(
+    { email, password, name, surname }: RegisterInput,
+    meta: SessionMeta = {}
+  ) {
+    // Hash password
+    const hashedPassword = await hashPassword(password);
+
+    // Create user. A taken email breaks the unique constraint, which the
+    // error handler answers with 409
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: hashedPassword,
+        name,
+        surname,
+      },
+    });
+
+    // A failed email should not fail the sign-up; the user can ask for a resend
+    try {
+      await emailVerificationService.sendVerification(user);
     } catch (error) {
-      if (error instanceof Prisma.PrismaClientKnownRequestError) {
-        if (error.code === "P2002") {
-          throw new Error("User already exists", {
-            cause: "User already exists",
-          });
-        }
-      }
-      throw error;
+      logger.error("Failed to send verification email", {
+        userId: user.id,
+        error: error instanceof Error ? error.message : error,
+      });
     }
+
+    // Start a session
+    const { accessToken, refreshToken } = await sessionService.create(
+      user.id,
+      meta
+    );
+
+    await auditService.record(user.id, "register", meta);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        createdAt: user.createdAt,
+      },
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  async logout(userId: string, sessionId: string, meta: SessionMeta = {}) {
+    await sessionService.revoke(sessionId);
+    await auditService.record(userId, "logout", meta);
   }
 }
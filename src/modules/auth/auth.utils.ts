@@ -1,16 +1,33 @@
+import { createHash } from "crypto";
+import type { Context } from "hono";
 import { CookieOptions } from "hono/utils/cookie";
+import { config } from "@/config";
+import { logger } from "@/middleware/logger";
+import type { SessionMeta } from "./session.service";
 
 export const cookieOptions: Record<string, CookieOptions> = {
   access: {
     path: "/",
     httpOnly: true,
-    secure: true,
-    sameSite: "strict",
+    secure: config.cookies.secure,
+    sameSite: config.cookies.sameSite,
+    domain: config.cookies.domain,
   },
   refresh: {
     path: "/",
     httpOnly: true,
-    secure: true,
-    sameSite: "strict",
+    secure: config.cookies.secure,
+    sameSite: config.cookies.sameSite,
+    domain: config.cookies.domain,
   },
 };
+
+// Tokens are stored as SHA-256 digests so a database leak exposes no usable token
+export const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// Client details recorded on the session
+export const getSessionMeta = (c: Context): SessionMeta => {
+  const { ip, userAgent } = logger.getRequestContext(c);
+  return { ip, userAgent };
+};
@@ -0,0 +1,86 @@
+import { prisma } from "@/prisma";
+import { config } from "@/config";
+import { mailer } from "@/mailer";
+import { logger } from "@/middleware/logger";
+import type { ResendVerificationInput, VerifyEmailInput } from "./auth.schema";
+import { TokenService } from "./token.service";
+import { BadRequestError } from "@/shared/errors";
+
+type VerificationTokenPayload = {
+  email: string;
+};
+
+const tokenService = new TokenService();
+
+export class EmailVerificationService {
+  /**
+   * Email a signed verification link for the given address.
+   * The address is part of the token, so changing the email invalidates it.
+   */
+  async sendVerification(user: { id: string; email: string }) {
+    const token = await tokenService.sign("verify-email", {
+      sub: user.id,
+      email: user.email,
+    });
+
+    const link = `${config.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await mailer.send({
+      to: user.email,
+      subject: "Verify your email address",
+      text: `Confirm your email address by opening the link below. It expires in 24 hours.\n\n${link}`,
+    });
+
+    logger.info("Verification email sent", { userId: user.id });
+  }
+
+  async verify({ token }: VerifyEmailInput) {
+    let decoded: { sub: string } & VerificationTokenPayload;
+    try {
+      decoded = await tokenService.verify<VerificationTokenPayload>(
+        "verify-email",
+        token
+      );
+    } catch {
+      throw new BadRequestError("Invalid or expired verification token");
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.sub, deletedAt: null },
+      select: { id: true, email: true, emailVerifiedAt: true },
+    });
+
+    if (!user || user.email !== decoded.email) {
+      throw new BadRequestError("Invalid or expired verification token");
+    }
+
+    // Opening the link twice is harmless
+    if (user.emailVerifiedAt) {
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    logger.info("Email verified", { userId: user.id });
+  }
+
+  /**
+   * Send a new link to an unverified account.
+   * Resolves the same way for unknown or verified addresses.
+   */
+  async resend({ email }: ResendVerificationInput) {
+    const user = await prisma.user.findUnique({
+      where: { email, deletedAt: null },
+      select: { id: true, email: true, emailVerifiedAt: true },
+    });
+
+    if (!user || user.emailVerifiedAt) {
+      return;
+    }
+
+    await this.sendVerification(user);
+  }
+}
@@ -1,4 +1,47 @@
 export { authController } from "./auth.controller";
 export { AuthService } from "./auth.service";
-export { LoginSchema, RegisterSchema } from "./auth.schema";
-export type { LoginInput, RegisterInput } from "./auth.schema";
+export { SessionService } from "./session.service";
+export { PasswordResetService } from "./password-reset.service";
+export { EmailVerificationService } from "./email-verification.service";
+export { TwoFactorService } from "./two-factor.service";
+export { PersonalAccessTokenService } from "./personal-access-token.service";
+export {
+  LoginThrottleService,
+  LoginLockedError,
+  ChallengeSpentError,
+} from "./login-throttle.service";
+export {
+  TOKEN_SCOPES,
+  LoginSchema,
+  RegisterSchema,
+  LoginChallengeSchema,
+  TwoFactorLoginSchema,
+  TwoFactorCodeSchema,
+  TwoFactorEnrollmentSchema,
+  RecoveryCodesSchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema,
+  ResendVerificationSchema,
+  SessionSchema,
+  SessionParamsSchema,
+  TokenScopeSchema,
+  PersonalAccessTokenSchema,
+  CreatePersonalAccessTokenSchema,
+  CreatedPersonalAccessTokenSchema,
+  TokenParamsSchema,
+} from "./auth.schema";
+export type {
+  LoginInput,
+  RegisterInput,
+  TwoFactorLoginInput,
+  TwoFactorCodeInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  VerifyEmailInput,
+  ResendVerificationInput,
+  Session,
+  TokenScope,
+  PersonalAccessToken,
+  CreatePersonalAccessTokenInput,
+} from "./auth.schema";
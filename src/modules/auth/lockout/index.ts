@@ -0,0 +1,18 @@
+import { config } from "@/config";
+import { MemoryLockoutStore } from "./memory";
+import { PostgresLockoutStore } from "./postgres";
+import type { LockoutStore } from "./types";
+
+const createLockoutStore = (): LockoutStore => {
+  switch (config.lockout.store) {
+    case "postgres":
+      return new PostgresLockoutStore();
+    default:
+      return new MemoryLockoutStore();
+  }
+};
+
+export const lockoutStore = createLockoutStore();
+
+export { MemoryLockoutStore, PostgresLockoutStore };
+export type { LockoutRecord, LockoutStore } from "./types";
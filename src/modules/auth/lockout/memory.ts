@@ -0,0 +1,69 @@
+import type { LockoutRecord, LockoutStore } from "./types";
+
+/**
+ * Keeps lockout state in process memory. State is per instance and lost on
+ * restart, so use the Postgres store when running more than one instance.
+ */
+export class MemoryLockoutStore implements LockoutStore {
+  private records = new Map<string, LockoutRecord>();
+
+  async get(key: string) {
+    return this.records.get(key) ?? null;
+  }
+
+  // Reads and writes without awaiting in between, so it cannot interleave
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    const existing = this.records.get(key);
+
+    const record: LockoutRecord =
+      existing && now.getTime() - existing.windowStart.getTime() < windowMs
+        ? { ...existing, failures: existing.failures + 1 }
+        : {
+            failures: 1,
+            windowStart: now,
+            lockedUntil: existing?.lockedUntil ?? null,
+          };
+
+    this.records.set(key, record);
+    this.prune(windowMs);
+
+    return record;
+  }
+
+  async decrement(key: string) {
+    const existing = this.records.get(key);
+
+    if (existing && existing.failures > 0) {
+      this.records.set(key, { ...existing, failures: existing.failures - 1 });
+    }
+  }
+
+  async lock(key: string, until: Date) {
+    const existing = this.records.get(key);
+    this.records.set(key, {
+      failures: existing?.failures ?? 0,
+      windowStart: existing?.windowStart ?? new Date(),
+      lockedUntil: until,
+    });
+  }
+
+  async reset(key: string) {
+    this.records.delete(key);
+  }
+
+  // Drop stale entries so the map cannot grow without bound
+  private prune(windowMs: number) {
+    const now = Date.now();
+
+    this.records.forEach((record, key) => {
+      const windowExpired = now - record.windowStart.getTime() >= windowMs;
+      const unlocked =
+        !record.lockedUntil || record.lockedUntil.getTime() <= now;
+
+      if (windowExpired && unlocked) {
+        this.records.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { prisma } from "@/prisma";
+import type { LockoutStore } from "./types";
+
+/**
+ * Keeps lockout state in the LoginThrottle table, shared by all instances
+ */
+export class PostgresLockoutStore implements LockoutStore {
+  async get(key: string) {
+    return await prisma.loginThrottle.findUnique({
+      where: { key },
+      select: { failures: true, windowStart: true, lockedUntil: true },
+    });
+  }
+
+  async increment(key: string, windowMs: number) {
+    const windowFloor = new Date(Date.now() - windowMs);
+
+    return await prisma.$transaction(async (tx) => {
+      // Start a new window if the current one has run out. The row stays
+      // locked until commit, so a concurrent reset waits and then finds
+      // the fresh window.
+      await tx.loginThrottle.updateMany({
+        where: { key, windowStart: { lte: windowFloor } },
+        data: { failures: 0, windowStart: new Date() },
+      });
+
+      // Runs as INSERT ... ON CONFLICT DO UPDATE SET failures = failures + 1,
+      // so concurrent attempts each get their own count
+      return await tx.loginThrottle.upsert({
+        where: { key },
+        create: { key, failures: 1 },
+        update: { failures: { increment: 1 } },
+        select: { failures: true, windowStart: true, lockedUntil: true },
+      });
+    });
+  }
+
+  async decrement(key: string) {
+    await prisma.loginThrottle.updateMany({
+      where: { key, failures: { gt: 0 } },
+      data: { failures: { decrement: 1 } },
+    });
+  }
+
+  async lock(key: string, until: Date) {
+    await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, lockedUntil: until },
+      update: { lockedUntil: until },
+    });
+  }
+
+  async reset(key: string) {
+    await prisma.loginThrottle.deleteMany({ where: { key } });
+  }
+}
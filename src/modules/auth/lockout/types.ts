@@ -0,0 +1,27 @@
+export interface LockoutRecord {
+  // Attempts counted in the current window: failures, plus attempts
+  // still in flight
+  failures: number;
+  windowStart: Date;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Persistence for login attempts, keyed by account or IP.
+ * Implement this to back lockouts with another store (e.g. Redis).
+ */
+export interface LockoutStore {
+  get(key: string): Promise<LockoutRecord | null>;
+  /**
+   * Count an attempt and return the record with the new count. A window
+   * older than `windowMs` starts over at one. Must be atomic: concurrent
+   * calls each see a different count.
+   */
+  increment(key: string, windowMs: number): Promise<LockoutRecord>;
+  /**
+   * Take back an attempt counted by increment(), never going below zero
+   */
+  decrement(key: string): Promise<void>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
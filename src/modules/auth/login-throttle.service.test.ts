@@ -0,0 +1,241 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { MemoryLockoutStore } from "./lockout";
+import {
+  ChallengeSpentError,
+  LoginLockedError,
+  LoginThrottleService,
+} from "./login-throttle.service";
+
+const target = { email: "Jane@Example.com", ip: "203.0.113.7" };
+
+let throttle: LoginThrottleService;
+let delays: number[];
+
+beforeEach(() => {
+  throttle = new LoginThrottleService(new MemoryLockoutStore());
+  delays = [];
+
+  // Skip the progressive delay but keep what it would have been
+  spyOn(globalThis, "setTimeout").mockImplementation(((
+    callback: () => void,
+    ms: number
+  ) => {
+    delays.push(ms);
+    callback();
+    return 0;
+  }) as unknown as typeof setTimeout);
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+type Target = { email: string; ip?: string };
+
+// A login attempt with a wrong password
+const fail = async (times: number, other: Target = target) => {
+  for (let i = 0; i < times; i++) {
+    await throttle.reserveAttempt(other);
+    await throttle.recordFailure(other);
+  }
+};
+
+const succeed = async (other: Target = target) => {
+  await throttle.reserveAttempt(other);
+  await throttle.recordSuccess(other);
+};
+
+const lockError = async (promise: Promise<unknown>) => {
+  const error = await promise.catch((error: unknown) => error);
+  expect(error).toBeInstanceOf(LoginLockedError);
+  return error as LoginLockedError;
+};
+
+describe("password attempts", () => {
+  test("locks the account after 5 failures", async () => {
+    await fail(4);
+    await fail(1);
+
+    const error = await lockError(throttle.reserveAttempt(target));
+    expect(error.status).toBe(429);
+    expect(error.retryAfterSeconds).toBe(15 * 60);
+  });
+
+  test("matches the account case-insensitively from any IP", async () => {
+    await fail(5);
+
+    await lockError(
+      throttle.reserveAttempt({
+        email: " jane@example.COM ",
+        ip: "198.51.100.1",
+      })
+    );
+  });
+
+  test("locks the IP after 20 failures across accounts", async () => {
+    for (let i = 0; i < 20; i++) {
+      await fail(1, { email: `user${i}@example.com`, ip: target.ip });
+    }
+
+    await lockError(
+      throttle.reserveAttempt({ email: "someone@example.com", ip: target.ip })
+    );
+    await succeed({ email: "someone@example.com", ip: "198.51.100.1" });
+  });
+
+  test("does not count failures against an unknown IP", async () => {
+    for (let i = 0; i < 20; i++) {
+      await fail(1, { email: `user${i}@example.com`, ip: "unknown" });
+    }
+
+    await succeed({ email: "someone@example.com", ip: "unknown" });
+  });
+
+  test("lets only 5 of a parallel burst through to the password check", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 30 }, () => throttle.reserveAttempt(target))
+    );
+
+    const reserved = results.filter(({ status }) => status === "fulfilled");
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    expect(reserved).toHaveLength(5);
+    expect(rejected).toHaveLength(25);
+    for (const { reason } of rejected) {
+      expect(reason).toBeInstanceOf(LoginLockedError);
+    }
+
+    // The burst's failures lock the account for later attempts
+    for (let i = 0; i < 5; i++) {
+      await throttle.recordFailure(target);
+    }
+    await lockError(throttle.reserveAttempt(target));
+  });
+
+  test("frees the attempts of a burst when one of them succeeds", async () => {
+    for (let i = 0; i < 5; i++) {
+      await throttle.reserveAttempt(target);
+    }
+    await lockError(throttle.reserveAttempt(target));
+
+    await throttle.recordSuccess(target);
+    await succeed();
+  });
+
+  test("doubles the delay after two free failures, up to 4 seconds", async () => {
+    await fail(5);
+    expect(delays).toEqual([250, 500, 1000]);
+
+    delays = [];
+    for (let i = 0; i < 10; i++) {
+      await fail(1, { email: `user${i}@example.com`, ip: "198.51.100.1" });
+    }
+    expect(delays).toEqual([250, 500, 1000, 2000, 4000, 4000, 4000, 4000]);
+  });
+
+  test("a success clears the account counter but not the IP's", async () => {
+    await fail(4, { email: "victim@example.com", ip: target.ip });
+    await succeed({ email: "victim@example.com", ip: target.ip });
+    await fail(4, { email: "victim@example.com", ip: "198.51.100.1" });
+
+    for (let i = 0; i < 16; i++) {
+      await fail(1, { email: `user${i}@example.com`, ip: target.ip });
+    }
+    await lockError(
+      throttle.reserveAttempt({ email: "other@example.com", ip: target.ip })
+    );
+  });
+});
+
+describe("second-factor attempts", () => {
+  const challenge = (challengeId: string, userId = "user-1") => ({
+    userId,
+    challengeId,
+    challengeExpiresAt: new Date(Date.now() + 5 * 60 * 1000),
+  });
+
+  // A second-factor attempt with a wrong code
+  const failCode = async (target: ReturnType<typeof challenge>) => {
+    await throttle.reserveTwoFactorAttempt(target);
+    await throttle.recordTwoFactorFailure(target);
+  };
+
+  const spentError = async (promise: Promise<unknown>) => {
+    expect(await promise.catch((error: unknown) => error)).toBeInstanceOf(
+      ChallengeSpentError
+    );
+  };
+
+  test("spends a challenge after 3 wrong codes", async () => {
+    await failCode(challenge("jti-1"));
+    await failCode(challenge("jti-1"));
+    await failCode(challenge("jti-1"));
+
+    await spentError(throttle.reserveTwoFactorAttempt(challenge("jti-1")));
+    await throttle.reserveTwoFactorAttempt(challenge("jti-2"));
+  });
+
+  test("spends a challenge once it is used", async () => {
+    await throttle.reserveTwoFactorAttempt(challenge("jti-1"));
+    await throttle.recordTwoFactorSuccess(challenge("jti-1"));
+
+    await spentError(throttle.reserveTwoFactorAttempt(challenge("jti-1")));
+  });
+
+  test("locks the user after 5 wrong codes across challenges", async () => {
+    for (let i = 0; i < 5; i++) {
+      await failCode(challenge(`jti-${i}`));
+    }
+
+    await lockError(throttle.reserveTwoFactorAttempt(challenge("jti-5")));
+    await throttle.reserveTwoFactorAttempt(challenge("jti-6", "user-2"));
+  });
+
+  test("lets a parallel burst on one challenge check 3 codes", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () =>
+        throttle.reserveTwoFactorAttempt(challenge("jti-1"))
+      )
+    );
+
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    expect(rejected).toHaveLength(7);
+    for (const { reason } of rejected) {
+      expect(reason).toBeInstanceOf(ChallengeSpentError);
+    }
+  });
+
+  test("lets parallel bursts across challenges check 5 codes", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 12 }, (_, i) =>
+        throttle.reserveTwoFactorAttempt(challenge(`jti-${i % 4}`))
+      )
+    );
+
+    expect(results.filter(({ status }) => status === "fulfilled")).toHaveLength(
+      5
+    );
+  });
+
+  test("a correct code clears the user's counter", async () => {
+    for (let i = 0; i < 4; i++) {
+      await failCode(challenge(`jti-${i}`));
+    }
+    await throttle.reserveTwoFactorAttempt(challenge("jti-4"));
+    await throttle.recordTwoFactorSuccess(challenge("jti-4"));
+    await failCode(challenge("jti-5"));
+
+    await throttle.reserveTwoFactorAttempt(challenge("jti-6"));
+  });
+});
@@ -0,0 +1,248 @@
+import { logger } from "@/middleware/logger";
+import { TooManyRequestsError, UnauthorizedError } from "@/shared/errors";
+import { lockoutStore, type LockoutStore } from "./lockout";
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+// Failures within the window before a key is locked out. IPs get more room
+// because offices and mobile carriers put many users behind one address.
+const ACCOUNT_FAILURE_LIMIT = 5;
+const IP_FAILURE_LIMIT = 20;
+
+// Wrong second-factor codes per user before lockout. Once the password is
+// known only six digits are left, so this stays as tight as the account.
+const TWO_FACTOR_FAILURE_LIMIT = 5;
+
+// Wrong codes a single challenge token takes before it is spent
+const CHALLENGE_ATTEMPT_LIMIT = 3;
+
+// Every failure after the first two doubles the response delay
+const DELAY_FREE_FAILURES = 2;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 4000;
+
+export class LoginLockedError extends TooManyRequestsError {
+  constructor(retryAfterSeconds: number) {
+    super("Too many login attempts", retryAfterSeconds);
+  }
+}
+
+// Same answer as for a bad or expired challenge token
+export class ChallengeSpentError extends UnauthorizedError {
+  constructor() {
+    super("Invalid or expired challenge");
+  }
+}
+
+type ThrottleTarget = {
+  email: string;
+  ip?: string;
+};
+
+type ThrottleKey = {
+  key: string;
+  limit: number;
+};
+
+type TwoFactorTarget = {
+  userId: string;
+  // jti and expiry of the challenge token the code was sent with
+  challengeId: string;
+  challengeExpiresAt: Date;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class LoginThrottleService {
+  constructor(private readonly store: LockoutStore = lockoutStore) {}
+
+  /**
+   * Count a login attempt against the account and the IP before the
+   * password is checked, so a burst of parallel requests cannot all get a
+   * guess in before the first failure is recorded. Throws LoginLockedError
+   * while either is locked out or has no attempts left.
+   */
+  async reserveAttempt(target: ThrottleTarget) {
+    const keys = this.keys(target);
+
+    await this.assertKeysNotLocked(keys);
+
+    if (await this.reserve(keys)) {
+      throw new LoginLockedError(LOCKOUT_DURATION_MS / 1000);
+    }
+  }
+
+  /**
+   * The reserved attempt failed: lock keys that used up their attempts
+   * and slow the response down progressively
+   */
+  async recordFailure(target: ThrottleTarget) {
+    await this.settleFailure(this.keys(target));
+  }
+
+  /**
+   * The reserved attempt succeeded: clear the account counter and give the
+   * IP its attempt back. The IP counter is not cleared, so one valid
+   * account cannot reset it for an attacker.
+   */
+  async recordSuccess(target: ThrottleTarget) {
+    const [account, ...others] = this.keys(target);
+
+    await this.store.reset(account.key);
+    for (const { key } of others) {
+      await this.store.decrement(key);
+    }
+  }
+
+  /**
+   * Count a second-factor attempt against the challenge and the user
+   * before the code is checked, like reserveAttempt() does for passwords.
+   * Throws ChallengeSpentError once the challenge was used or has no
+   * attempts left, LoginLockedError while the user is locked out. A
+   * correct password does not lift that lock.
+   */
+  async reserveTwoFactorAttempt(target: TwoFactorTarget) {
+    const challenge = this.challengeKey(target.challengeId);
+    const user = this.twoFactorKey(target.userId);
+
+    const spent = await this.store.get(challenge.key);
+    if (spent?.lockedUntil) {
+      throw new ChallengeSpentError();
+    }
+
+    await this.assertKeysNotLocked([user]);
+
+    const exhausted = await this.reserve([challenge, user]);
+    if (exhausted === challenge) {
+      throw new ChallengeSpentError();
+    }
+    if (exhausted) {
+      throw new LoginLockedError(LOCKOUT_DURATION_MS / 1000);
+    }
+  }
+
+  /**
+   * The reserved code was wrong: spend the challenge once it used up its
+   * attempts and count the failure against the user
+   */
+  async recordTwoFactorFailure(target: TwoFactorTarget) {
+    const challenge = this.challengeKey(target.challengeId);
+    const failures = (await this.store.get(challenge.key))?.failures ?? 0;
+
+    if (failures >= challenge.limit) {
+      await this.store.lock(challenge.key, target.challengeExpiresAt);
+    }
+
+    await this.settleFailure([this.twoFactorKey(target.userId)]);
+  }
+
+  /**
+   * Spend the challenge so the token cannot start a second session, and
+   * clear the user's second-factor counter
+   */
+  async recordTwoFactorSuccess(target: TwoFactorTarget) {
+    await this.store.lock(
+      this.challengeKey(target.challengeId).key,
+      target.challengeExpiresAt
+    );
+    await this.store.reset(this.twoFactorKey(target.userId).key);
+  }
+
+  private async assertKeysNotLocked(keys: ThrottleKey[]) {
+    const now = Date.now();
+    let lockedUntil = 0;
+
+    for (const { key } of keys) {
+      const record = await this.store.get(key);
+      if (record?.lockedUntil && record.lockedUntil.getTime() > now) {
+        lockedUntil = Math.max(lockedUntil, record.lockedUntil.getTime());
+      }
+    }
+
+    if (lockedUntil > now) {
+      throw new LoginLockedError(Math.ceil((lockedUntil - now) / 1000));
+    }
+  }
+
+  /**
+   * Count an attempt on every key. When one has no attempts left, take
+   * back the ones counted and return it; the attempts already in flight
+   * decide whether it ends up locked.
+   */
+  private async reserve(keys: ThrottleKey[]) {
+    const counted: ThrottleKey[] = [];
+
+    for (const throttleKey of keys) {
+      const { failures } = await this.store.increment(
+        throttleKey.key,
+        FAILURE_WINDOW_MS
+      );
+      counted.push(throttleKey);
+
+      if (failures > throttleKey.limit) {
+        for (const { key } of counted) {
+          await this.store.decrement(key);
+        }
+        return throttleKey;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Lock keys that reached their limit and sleep off the delay
+  private async settleFailure(keys: ThrottleKey[]) {
+    let delay = 0;
+
+    for (const { key, limit } of keys) {
+      const failures = (await this.store.get(key))?.failures ?? 0;
+
+      if (failures >= limit) {
+        await this.store.lock(key, new Date(Date.now() + LOCKOUT_DURATION_MS));
+        logger.warn("Login locked out", { key, failures });
+      }
+
+      delay = Math.max(delay, this.delayFor(failures));
+    }
+
+    if (delay > 0) {
+      await sleep(delay);
+    }
+  }
+
+  private delayFor(failures: number) {
+    if (failures <= DELAY_FREE_FAILURES) return 0;
+    return Math.min(
+      BASE_DELAY_MS * 2 ** (failures - DELAY_FREE_FAILURES - 1),
+      MAX_DELAY_MS
+    );
+  }
+
+  private accountKey(email: string) {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private twoFactorKey(userId: string): ThrottleKey {
+    return { key: `2fa:${userId}`, limit: TWO_FACTOR_FAILURE_LIMIT };
+  }
+
+  private challengeKey(challengeId: string): ThrottleKey {
+    return {
+      key: `2fa-challenge:${challengeId}`,
+      limit: CHALLENGE_ATTEMPT_LIMIT,
+    };
+  }
+
+  private keys(target: ThrottleTarget) {
+    const keys: ThrottleKey[] = [
+      { key: this.accountKey(target.email), limit: ACCOUNT_FAILURE_LIMIT },
+    ];
+
+    if (target.ip && target.ip !== "unknown") {
+      keys.push({ key: `ip:${target.ip}`, limit: IP_FAILURE_LIMIT });
+    }
+
+    return keys;
+  }
+}
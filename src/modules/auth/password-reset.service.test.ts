@@ -0,0 +1,203 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { mailer, type MailMessage } from "@/mailer";
+import { mockPrisma, testPrisma } from "@/test/prisma";
+import { BadRequestError } from "@/shared/errors";
+import { hashToken } from "./auth.utils";
+import { PasswordResetService } from "./password-reset.service";
+
+type ResetTokenRow = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+};
+
+const USER = { id: "user-1", email: "jane@example.com" };
+
+// Just enough of the database for PasswordResetService
+let resetTokens: ResetTokenRow[];
+let passwordHash: string | undefined;
+let revoked: { sessions: number; tokens: number };
+
+mockPrisma({
+  $transaction: async (operations: unknown) =>
+    Array.isArray(operations)
+      ? await Promise.all(operations)
+      : await (operations as (tx: typeof testPrisma) => unknown)(testPrisma),
+  user: {
+    findUnique: async ({ where }: { where: { email: string } }) =>
+      where.email === USER.email ? USER : null,
+    update: async ({ data }: { data: { password: string } }) => {
+      passwordHash = data.password;
+    },
+  },
+  passwordResetToken: {
+    findUnique: async ({ where }: { where: { tokenHash: string } }) =>
+      resetTokens.find((row) => row.tokenHash === where.tokenHash) ?? null,
+    create: async ({
+      data,
+    }: {
+      data: Omit<ResetTokenRow, "id" | "usedAt">;
+    }) => {
+      resetTokens.push({ ...data, id: crypto.randomUUID(), usedAt: null });
+    },
+    deleteMany: async ({ where }: { where: { userId: string } }) => {
+      resetTokens = resetTokens.filter(
+        (row) => row.userId !== where.userId || row.usedAt
+      );
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { id: string; expiresAt: { gt: Date } };
+      data: { usedAt: Date };
+    }) => {
+      const row = resetTokens.find(
+        ({ id, usedAt, expiresAt }) =>
+          id === where.id && !usedAt && expiresAt > where.expiresAt.gt
+      );
+      if (row) row.usedAt = data.usedAt;
+      return { count: row ? 1 : 0 };
+    },
+  },
+  session: {
+    updateMany: async () => ({ count: ++revoked.sessions }),
+  },
+  personalAccessToken: {
+    updateMany: async () => ({ count: ++revoked.tokens }),
+  },
+  auditEvent: { create: async () => ({}) },
+});
+
+const passwordResetService = new PasswordResetService();
+
+let sent: MailMessage[];
+// Resolves on the next mail sent, which happens after the request returns
+let nextMail: () => Promise<MailMessage>;
+
+beforeEach(() => {
+  resetTokens = [];
+  passwordHash = undefined;
+  revoked = { sessions: 0, tokens: 0 };
+  sent = [];
+
+  let waiting: ((message: MailMessage) => void)[] = [];
+  nextMail = () => new Promise((resolve) => waiting.push(resolve));
+  spyOn(mailer, "send").mockImplementation(async (message) => {
+    sent.push(message);
+    waiting.forEach((resolve) => resolve(message));
+    waiting = [];
+  });
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+// Request a reset and read the token from the emailed link
+const requestToken = async () => {
+  const mail = nextMail();
+  await passwordResetService.requestReset({ email: USER.email });
+
+  const link = /https?:\/\/\S+/.exec((await mail).text)?.[0];
+  return new URL(link!).searchParams.get("token")!;
+};
+
+const invalidToken = async (promise: Promise<unknown>) => {
+  const error = await promise.catch((error: unknown) => error);
+  expect(error).toBeInstanceOf(BadRequestError);
+  expect((error as BadRequestError).message).toBe(
+    "Invalid or expired reset token"
+  );
+};
+
+describe("requestReset", () => {
+  test("does not wait for the mail to be delivered", async () => {
+    spyOn(mailer, "send").mockImplementation(() => new Promise(() => {}));
+
+    await passwordResetService.requestReset({ email: USER.email });
+  });
+
+  test("sends nothing for unknown emails", async () => {
+    await passwordResetService.requestReset({ email: "nobody@example.com" });
+
+    expect(mailer.send).not.toHaveBeenCalled();
+    expect(resetTokens).toHaveLength(0);
+  });
+
+  test("stores only a hash of the emailed token", async () => {
+    const token = await requestToken();
+
+    expect(sent[0].to).toBe(USER.email);
+    expect(resetTokens).toHaveLength(1);
+    expect(resetTokens[0].tokenHash).toBe(hashToken(token));
+  });
+});
+
+describe("resetPassword", () => {
+  const password = "a brand new passphrase";
+
+  test("sets the password and signs out everywhere", async () => {
+    const token = await requestToken();
+
+    await passwordResetService.resetPassword({ token, password });
+
+    expect(passwordHash).toStartWith("$2");
+    expect(revoked).toEqual({ sessions: 1, tokens: 1 });
+  });
+
+  test("accepts each token once", async () => {
+    const token = await requestToken();
+    await passwordResetService.resetPassword({ token, password });
+
+    await invalidToken(passwordResetService.resetPassword({ token, password }));
+  });
+
+  test("accepts a token once under concurrent use", async () => {
+    const token = await requestToken();
+
+    const results = await Promise.allSettled([
+      passwordResetService.resetPassword({ token, password }),
+      passwordResetService.resetPassword({ token, password }),
+    ]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+  });
+
+  test("rejects expired tokens", async () => {
+    const token = await requestToken();
+    resetTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    await invalidToken(passwordResetService.resetPassword({ token, password }));
+    expect(passwordHash).toBeUndefined();
+  });
+
+  test("rejects unknown tokens", async () => {
+    await invalidToken(
+      passwordResetService.resetPassword({ token: "made-up", password })
+    );
+  });
+
+  test("keeps only the newest link valid", async () => {
+    const first = await requestToken();
+    const second = await requestToken();
+
+    await invalidToken(
+      passwordResetService.resetPassword({ token: first, password })
+    );
+    await passwordResetService.resetPassword({ token: second, password });
+  });
+});
@@ -0,0 +1,135 @@
+import { prisma } from "@/prisma";
+import { config } from "@/config";
+import { randomBytes } from "crypto";
+import { mailer } from "@/mailer";
+import { logger } from "@/middleware/logger";
+import { hashToken } from "./auth.utils";
+import { hashPassword } from "./password";
+import { SessionService, type SessionMeta } from "./session.service";
+import { PersonalAccessTokenService } from "./personal-access-token.service";
+import type { ForgotPasswordInput, ResetPasswordInput } from "./auth.schema";
+import { AuditService } from "@/modules/audit/audit.service";
+import { BadRequestError } from "@/shared/errors";
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const sessionService = new SessionService();
+const personalAccessTokenService = new PersonalAccessTokenService();
+const auditService = new AuditService();
+
+export class PasswordResetService {
+  /**
+   * Email a reset link if the address belongs to a user.
+   * Resolves the same way either way, without waiting for the mail, so
+   * callers cannot probe for accounts.
+   */
+  async requestReset({ email }: ForgotPasswordInput) {
+    const user = await prisma.user.findUnique({
+      where: { email, deletedAt: null },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      logger.info("Password reset requested for unknown email");
+      return;
+    }
+
+    // Issued and mailed off the request: waiting on the mail server only
+    // for real accounts would tell callers which emails are registered
+    void this.sendResetLink(user).catch((error) => {
+      logger.error("Failed to send password reset email", {
+        userId: user.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+  }
+
+  /**
+   * Consume a reset token, set the new password, sign out every session
+   * and revoke every personal access token
+   */
+  async resetPassword(
+    { token, password }: ResetPasswordInput,
+    meta: SessionMeta = {}
+  ) {
+    const hashedPassword = await hashPassword(password);
+
+    const userId = await prisma.$transaction(async (tx) => {
+      const resetToken = await tx.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+      });
+
+      if (!resetToken) {
+        return null;
+      }
+
+      // Claim the token atomically so it can only be used once
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: {
+          id: resetToken.id,
+          usedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+      });
+
+      return resetToken.userId;
+    });
+
+    if (!userId) {
+      throw new BadRequestError("Invalid or expired reset token");
+    }
+
+    const revoked = await sessionService.revokeAll(userId);
+    // Tokens created by whoever had the old password must not outlive it
+    const revokedTokens = await personalAccessTokenService.revokeAll(userId);
+
+    await auditService.record(userId, "password.reset", {
+      ...meta,
+      metadata: { revokedTokens },
+    });
+
+    logger.info("Password reset completed", {
+      userId,
+      revokedSessions: revoked,
+      revokedTokens,
+    });
+  }
+
+  private async sendResetLink(user: { id: string; email: string }) {
+    const token = randomBytes(32).toString("base64url");
+
+    // Only the newest link stays valid
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        },
+      }),
+    ]);
+
+    const link = `${config.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your password",
+      text: `Use the link below to choose a new password. It expires in one hour.\n\n${link}\n\nIf you did not ask for this, you can ignore this email.`,
+    });
+
+    logger.info("Password reset email sent", { userId: user.id });
+  }
+}
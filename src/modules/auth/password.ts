@@ -0,0 +1,83 @@
+import { z } from "@hono/zod-openapi";
+import bcrypt from "bcrypt";
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { config } from "@/config";
+import type { CHARACTER_CLASS_NAMES } from "@/config/schema";
+
+// Shared password policy for register, reset and change.
+// Every rule is configurable through the environment, see src/config.
+
+type CharacterClass = (typeof CHARACTER_CLASS_NAMES)[number];
+
+const CHARACTER_CLASSES: Record<
+  CharacterClass,
+  { pattern: RegExp; message: string }
+> = {
+  lowercase: { pattern: /[a-z]/, message: "a lowercase letter" },
+  uppercase: { pattern: /[A-Z]/, message: "an uppercase letter" },
+  digit: { pattern: /\d/, message: "a digit" },
+  symbol: { pattern: /[^A-Za-z0-9]/, message: "a symbol" },
+};
+
+export const passwordPolicy = {
+  minLength: config.password.minLength,
+  // bcrypt ignores everything after 72 bytes. Counted in UTF-8 bytes, not
+  // characters, so multi-byte passwords cannot be truncated unnoticed.
+  maxBytes: 72,
+  requiredClasses: config.password.requiredClasses,
+  bcryptCost: config.password.bcryptCost,
+};
+
+const loadBreachedPasswords = () => {
+  const path =
+    config.password.breachedList ||
+    fileURLToPath(new URL("./breached-passwords.txt", import.meta.url));
+
+  return new Set(
+    readFileSync(path, "utf8")
+      .split("\n")
+      .map((line) => line.trim().toLowerCase())
+      .filter((line) => line && !line.startsWith("#"))
+  );
+};
+
+const breachedPasswords = loadBreachedPasswords();
+
+export const passwordSchema = z
+  .string()
+  .min(passwordPolicy.minLength)
+  .superRefine((password, ctx) => {
+    if (Buffer.byteLength(password, "utf8") > passwordPolicy.maxBytes) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Password must be at most ${passwordPolicy.maxBytes} bytes`,
+      });
+    }
+
+    for (const name of passwordPolicy.requiredClasses) {
+      const { pattern, message } = CHARACTER_CLASSES[name];
+      if (!pattern.test(password)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Password must contain ${message}`,
+        });
+      }
+    }
+
+    if (breachedPasswords.has(password.toLowerCase())) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Password is too common, choose another one",
+      });
+    }
+  });
+
+export const hashPassword = (password: string) =>
+  bcrypt.hash(password, passwordPolicy.bcryptCost);
+
+/**
+ * Whether a stored hash was made with a lower cost than configured
+ */
+export const needsRehash = (hash: string) =>
+  bcrypt.getRounds(hash) < passwordPolicy.bcryptCost;
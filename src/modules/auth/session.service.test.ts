@@ -0,0 +1,226 @@
+import { beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mockPrisma } from "@/test/prisma";
+import { UnauthorizedError } from "@/shared/errors";
+import { hashToken } from "./auth.utils";
+import { SessionService } from "./session.service";
+import { TokenService } from "./token.service";
+
+type SessionRow = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  previousTokenHash: string | null;
+  rotatedAt: Date | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  lastUsedAt?: Date;
+  ip?: string;
+  userAgent?: string;
+};
+
+type SessionWhere = Partial<Omit<SessionRow, "id">> & {
+  id?: string | { not: string };
+};
+
+// Just enough of prisma.session for SessionService
+const sessions = new Map<string, SessionRow>();
+
+const matches = (row: SessionRow, where: SessionWhere) =>
+  Object.entries(where).every(([field, value]) => {
+    const actual = row[field as keyof SessionRow];
+    if (value && typeof value === "object" && "not" in value) {
+      return actual !== value.not;
+    }
+    return actual === value;
+  });
+
+const sessionDelegate = {
+  // A copy, like a row read from the database
+  findUnique: async ({ where }: { where: { id: string } }) => {
+    const row = sessions.get(where.id);
+    return row ? { ...row } : null;
+  },
+  create: async ({
+    data,
+  }: {
+    data: Omit<SessionRow, "previousTokenHash" | "rotatedAt" | "revokedAt">;
+  }) => {
+    sessions.set(data.id, {
+      ...data,
+      previousTokenHash: null,
+      rotatedAt: null,
+      revokedAt: null,
+    });
+  },
+  updateMany: async ({
+    where,
+    data,
+  }: {
+    where: SessionWhere;
+    data: Partial<SessionRow>;
+  }) => {
+    const rows = Array.from(sessions.values()).filter((row) =>
+      matches(row, where)
+    );
+    rows.forEach((row) => Object.assign(row, data));
+    return { count: rows.length };
+  },
+};
+
+mockPrisma({ session: sessionDelegate });
+
+const sessionService = new SessionService();
+const tokenService = new TokenService();
+
+const rejection = async (promise: Promise<unknown>) => {
+  const error = await promise.catch((error: unknown) => error);
+  expect(error).toBeInstanceOf(UnauthorizedError);
+  return error as UnauthorizedError;
+};
+
+beforeEach(() => {
+  sessions.clear();
+});
+
+describe("create", () => {
+  test("stores the session and issues tokens bound to it", async () => {
+    const { sessionId, accessToken, refreshToken } =
+      await sessionService.create("user-1", { ip: "203.0.113.7" });
+
+    expect(sessions.get(sessionId)).toMatchObject({
+      userId: "user-1",
+      ip: "203.0.113.7",
+      revokedAt: null,
+    });
+    expect(sessions.get(sessionId)?.tokenHash).toBe(hashToken(refreshToken));
+
+    const access = await tokenService.verify("access", accessToken);
+    const refresh = await tokenService.verify("refresh", refreshToken);
+    expect(access).toMatchObject({ sub: "user-1", sid: sessionId });
+    expect(refresh).toMatchObject({ sub: "user-1", sid: sessionId });
+  });
+});
+
+describe("rotate", () => {
+  test("swaps the refresh token for a new pair", async () => {
+    const created = await sessionService.create("user-1");
+
+    const rotated = await sessionService.rotate(created.refreshToken, {
+      userAgent: "test",
+    });
+
+    expect(rotated).toMatchObject({
+      userId: "user-1",
+      sessionId: created.sessionId,
+    });
+    expect(rotated.refreshToken).not.toBe(created.refreshToken);
+    expect(rotated.accessToken).not.toBe(created.accessToken);
+    expect(sessions.get(created.sessionId)?.userAgent).toBe("test");
+
+    // The new token rotates in turn
+    await sessionService.rotate(rotated.refreshToken!);
+  });
+
+  test("revokes the session when a spent token is replayed", async () => {
+    const created = await sessionService.create("user-1");
+    const rotated = await sessionService.rotate(created.refreshToken);
+    // Past the grace period for concurrent refreshes
+    sessions.get(created.sessionId)!.rotatedAt = new Date(Date.now() - 60_000);
+
+    const error = await rejection(sessionService.rotate(created.refreshToken));
+    expect(error.message).toBe("Refresh token reuse detected");
+    expect(sessions.get(created.sessionId)?.revokedAt).toBeInstanceOf(Date);
+
+    // The legitimate holder is logged out too
+    await rejection(sessionService.rotate(rotated.refreshToken!));
+  });
+
+  test("revokes the session when an older token is replayed", async () => {
+    const created = await sessionService.create("user-1");
+    const rotated = await sessionService.rotate(created.refreshToken);
+    await sessionService.rotate(rotated.refreshToken!);
+
+    // Within the grace period, but two rotations back
+    await rejection(sessionService.rotate(created.refreshToken));
+    expect(sessions.get(created.sessionId)?.revokedAt).toBeInstanceOf(Date);
+  });
+
+  test("lets concurrent refreshes with one token all through", async () => {
+    const { sessionId, refreshToken } = await sessionService.create("user-1");
+
+    const results = await Promise.all(
+      Array.from({ length: 3 }, () => sessionService.rotate(refreshToken))
+    );
+
+    // One rotates the token; the others only get an access token, so the
+    // rotated token stays current
+    const rotated = results.filter((result) => result.refreshToken);
+    expect(rotated).toHaveLength(1);
+    for (const { accessToken } of results) {
+      expect(await tokenService.verify("access", accessToken)).toMatchObject({
+        sid: sessionId,
+      });
+    }
+    expect(sessions.get(sessionId)?.revokedAt).toBeNull();
+
+    await sessionService.rotate(rotated[0].refreshToken!);
+  });
+
+  test("rejects revoked and expired sessions", async () => {
+    const revoked = await sessionService.create("user-1");
+    await sessionService.revoke(revoked.sessionId);
+    await rejection(sessionService.rotate(revoked.refreshToken));
+
+    const expired = await sessionService.create("user-1");
+    sessions.get(expired.sessionId)!.expiresAt = new Date(Date.now() - 1000);
+    await rejection(sessionService.rotate(expired.refreshToken));
+  });
+
+  test("rejects tokens that are not refresh tokens", async () => {
+    const { accessToken } = await sessionService.create("user-1");
+
+    await rejection(sessionService.rotate(accessToken));
+    await rejection(sessionService.rotate("not-a-jwt"));
+  });
+});
+
+describe("isActive", () => {
+  test("is false for unknown, revoked and expired sessions", async () => {
+    expect(await sessionService.isActive("missing")).toBe(false);
+
+    const expired = await sessionService.create("user-1");
+    sessions.get(expired.sessionId)!.expiresAt = new Date(Date.now() - 1000);
+    expect(await sessionService.isActive(expired.sessionId)).toBe(false);
+  });
+
+  test("caches active sessions until they are revoked", async () => {
+    const { sessionId } = await sessionService.create("user-1");
+    const findUnique = spyOn(sessionDelegate, "findUnique");
+
+    expect(await sessionService.isActive(sessionId)).toBe(true);
+    expect(await sessionService.isActive(sessionId)).toBe(true);
+    expect(findUnique).toHaveBeenCalledTimes(1);
+
+    await sessionService.revoke(sessionId);
+    expect(await sessionService.isActive(sessionId)).toBe(false);
+    findUnique.mockRestore();
+  });
+
+  test("revokeAll drops the user's sessions except the one kept", async () => {
+    const kept = await sessionService.create("user-1");
+    const other = await sessionService.create("user-1");
+    const someoneElse = await sessionService.create("user-2");
+
+    for (const { sessionId } of [kept, other, someoneElse]) {
+      expect(await sessionService.isActive(sessionId)).toBe(true);
+    }
+
+    expect(
+      await sessionService.revokeAll("user-1", { except: kept.sessionId })
+    ).toBe(1);
+
+    expect(await sessionService.isActive(kept.sessionId)).toBe(true);
+    expect(await sessionService.isActive(other.sessionId)).toBe(false);
+    expect(await sessionService.isActive(someoneElse.sessionId)).toBe(true);
+  });
+});
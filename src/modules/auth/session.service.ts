@@ -0,0 +1,290 @@
+import { prisma } from "@/prisma";
+import { config } from "@/config";
+import { logger } from "@/middleware/logger";
+import { randomUUID } from "crypto";
+import { hashToken } from "./auth.utils";
+import { TokenService } from "./token.service";
+import { NotFoundError, UnauthorizedError } from "@/shared/errors";
+
+export type SessionMeta = {
+  ip?: string;
+  userAgent?: string;
+};
+
+type RefreshTokenPayload = {
+  sid?: string;
+};
+
+const tokenService = new TokenService();
+
+// Access tokens are checked against their session on every request. Active
+// sessions are cached briefly to spare the lookup; revoking through this
+// service drops them at once, other instances notice within the TTL.
+const ACTIVE_SESSION_CACHE_MS = 10 * 1000;
+const activeSessions = new Map<string, { userId: string; checkedAt: number }>();
+
+// A browser whose access token expired refreshes every API call it has in
+// flight with the same cookie. The calls that lose the race present the
+// token just rotated out, which is accepted for this long.
+const ROTATION_GRACE_MS = 10 * 1000;
+
+const forgetActiveSessions = (
+  match: (sessionId: string, userId: string) => boolean
+) => {
+  activeSessions.forEach(({ userId, checkedAt }, sessionId) => {
+    if (
+      match(sessionId, userId) ||
+      Date.now() - checkedAt >= ACTIVE_SESSION_CACHE_MS
+    ) {
+      activeSessions.delete(sessionId);
+    }
+  });
+};
+
+export class SessionService {
+  /**
+   * Start a new session for the user and issue its first token pair
+   */
+  async create(userId: string, meta: SessionMeta = {}) {
+    const sessionId = randomUUID();
+    const expiresAt = new Date(Date.now() + config.jwt.ttl.refresh * 1000);
+    const refreshToken = await this.signRefreshToken(
+      userId,
+      sessionId,
+      expiresAt
+    );
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        tokenHash: hashToken(refreshToken),
+        ip: meta.ip,
+        userAgent: meta.userAgent,
+        expiresAt,
+      },
+    });
+
+    return {
+      sessionId,
+      accessToken: await this.signAccessToken(userId, sessionId),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   * The presented token is invalidated; presenting it again revokes the
+   * whole session, unless it was rotated out moments ago by a concurrent
+   * refresh. That one gets a new access token and a null refreshToken:
+   * the token the concurrent refresh issued stays current.
+   */
+  async rotate(refreshToken: string, meta: SessionMeta = {}) {
+    let decoded: RefreshTokenPayload;
+    try {
+      decoded = await tokenService.verify<RefreshTokenPayload>(
+        "refresh",
+        refreshToken
+      );
+    } catch {
+      throw new UnauthorizedError("Invalid refresh token");
+    }
+
+    // Tokens issued before sessions existed carry no session id
+    if (!decoded.sid) {
+      throw new UnauthorizedError("Invalid refresh token");
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sid },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedError("Invalid refresh token");
+    }
+
+    const tokenHash = hashToken(refreshToken);
+
+    if (this.wasJustRotated(session, tokenHash)) {
+      return await this.concurrentRefresh(session);
+    }
+
+    const nextRefreshToken = await this.signRefreshToken(
+      session.userId,
+      session.id,
+      session.expiresAt
+    );
+
+    // Only the current token may be swapped; the hash check and the update
+    // happen in one statement so two concurrent refreshes cannot both win
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, tokenHash, revokedAt: null },
+      data: {
+        tokenHash: hashToken(nextRefreshToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        ip: meta.ip,
+        userAgent: meta.userAgent,
+      },
+    });
+
+    if (count === 0) {
+      // Lost the race to a refresh that finished after the read above
+      const current = await prisma.session.findUnique({
+        where: { id: session.id },
+      });
+
+      if (
+        current &&
+        !current.revokedAt &&
+        this.wasJustRotated(current, tokenHash)
+      ) {
+        return await this.concurrentRefresh(current);
+      }
+
+      await this.revoke(session.id);
+      logger.warn("Refresh token reuse detected - session revoked", {
+        userId: session.userId,
+        sessionId: session.id,
+      });
+      throw new UnauthorizedError("Refresh token reuse detected");
+    }
+
+    return {
+      userId: session.userId,
+      sessionId: session.id,
+      accessToken: await this.signAccessToken(session.userId, session.id),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  /**
+   * Whether access tokens of the session may still be used: it exists,
+   * is not revoked and has not expired
+   */
+  async isActive(sessionId: string) {
+    const cached = activeSessions.get(sessionId);
+
+    if (cached && Date.now() - cached.checkedAt < ACTIVE_SESSION_CACHE_MS) {
+      return true;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      activeSessions.delete(sessionId);
+      return false;
+    }
+
+    // Also drops stale entries so the cache cannot grow without bound
+    forgetActiveSessions(() => false);
+    activeSessions.set(sessionId, {
+      userId: session.userId,
+      checkedAt: Date.now(),
+    });
+
+    return true;
+  }
+
+  /**
+   * Sessions that can still be refreshed, most recently used first
+   */
+  async listActive(userId: string) {
+    return await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        userAgent: true,
+        ip: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: "desc" },
+    });
+  }
+
+  async revoke(sessionId: string) {
+    activeSessions.delete(sessionId);
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Revoke a session only if it belongs to the given user.
+   * Throws NotFoundError when there is no such active session.
+   */
+  async revokeForUser(userId: string, sessionId: string) {
+    activeSessions.delete(sessionId);
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("Session not found");
+    }
+  }
+
+  /**
+   * Revoke every session of the user, optionally keeping one (the caller's)
+   */
+  async revokeAll(userId: string, { except }: { except?: string } = {}) {
+    forgetActiveSessions(
+      (sessionId, sessionUserId) =>
+        sessionUserId === userId && sessionId !== except
+    );
+    const { count } = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(except ? { id: { not: except } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  private wasJustRotated(
+    session: { previousTokenHash: string | null; rotatedAt: Date | null },
+    tokenHash: string
+  ) {
+    return (
+      session.previousTokenHash === tokenHash &&
+      session.rotatedAt !== null &&
+      Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+    );
+  }
+
+  private async concurrentRefresh(session: { id: string; userId: string }) {
+    return {
+      userId: session.userId,
+      sessionId: session.id,
+      accessToken: await this.signAccessToken(session.userId, session.id),
+      refreshToken: null,
+    };
+  }
+
+  private async signAccessToken(userId: string, sessionId: string) {
+    return await tokenService.sign("access", { sub: userId, sid: sessionId });
+  }
+
+  // Refresh tokens never outlive their session
+  private async signRefreshToken(
+    userId: string,
+    sessionId: string,
+    expiresAt: Date
+  ) {
+    return await tokenService.sign(
+      "refresh",
+      { sub: userId, sid: sessionId },
+      { expiresAt }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { generateKeyPairSync, type KeyObject } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadKeyring } from "./signing-keys";
+
+const dirs: string[] = [];
+
+afterAll(() => {
+  dirs.forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+});
+
+const privatePem = (key: KeyObject) =>
+  key.export({ type: "pkcs8", format: "pem" });
+const publicPem = (key: KeyObject) =>
+  key.export({ type: "spki", format: "pem" });
+
+// A keys directory holding the given files
+const keysDir = (files: Record<string, string | Buffer>) => {
+  const dir = mkdtempSync(join(tmpdir(), "jwt-keys-"));
+  dirs.push(dir);
+  Object.entries(files).forEach(([name, pem]) =>
+    writeFileSync(join(dir, name), pem)
+  );
+  return dir;
+};
+
+const current = generateKeyPairSync("ed25519");
+const retired = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+describe("loadKeyring", () => {
+  test("signs with the only private key and keeps retired keys to verify", () => {
+    const { active, keys } = loadKeyring({
+      keysDir: keysDir({
+        "2026-10.pem": privatePem(current.privateKey),
+        "2025-04.pub.pem": publicPem(retired.publicKey),
+      }),
+    });
+
+    expect(active.kid).toBe("2026-10");
+    expect(active.alg).toBe("EdDSA");
+    expect(keys.get("2025-04")).toMatchObject({ kid: "2025-04", alg: "RS256" });
+    expect(keys.get("2025-04")?.privateKey).toBeUndefined();
+  });
+
+  test("prefers a private key over a public one with the same kid", () => {
+    const { keys } = loadKeyring({
+      keysDir: keysDir({
+        "2026-10.pem": privatePem(current.privateKey),
+        "2026-10.pub.pem": publicPem(current.publicKey),
+      }),
+    });
+
+    expect(keys.get("2026-10")?.privateKey).toBeDefined();
+  });
+
+  test("ignores files that are not keys", () => {
+    const { keys } = loadKeyring({
+      keysDir: keysDir({
+        "2026-10.pem": privatePem(current.privateKey),
+        "README.md": "Rotate every six months",
+      }),
+    });
+
+    expect(Array.from(keys.keys())).toEqual(["2026-10"]);
+  });
+
+  test("needs JWT_ACTIVE_KID to choose among several private keys", () => {
+    const dir = keysDir({
+      "2026-10.pem": privatePem(current.privateKey),
+      "2025-04.pem": privatePem(retired.privateKey),
+    });
+
+    expect(() => loadKeyring({ keysDir: dir })).toThrow(/JWT_ACTIVE_KID/);
+    expect(loadKeyring({ keysDir: dir, activeKid: "2025-04" }).active.kid).toBe(
+      "2025-04"
+    );
+  });
+
+  test("refuses to sign with a retired key", () => {
+    const dir = keysDir({
+      "2026-10.pem": privatePem(current.privateKey),
+      "2025-04.pub.pem": publicPem(retired.publicKey),
+    });
+
+    expect(() => loadKeyring({ keysDir: dir, activeKid: "2025-04" })).toThrow(
+      "No private key found for JWT_ACTIVE_KID 2025-04"
+    );
+  });
+
+  test("rejects unsupported key types", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const dir = keysDir({ "2026-10.pem": privatePem(privateKey) });
+
+    expect(() => loadKeyring({ keysDir: dir })).toThrow(
+      /Unsupported key type for 2026-10/
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomUUID,
+  type KeyObject,
+} from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { config } from "@/config";
+import { logger } from "@/middleware/logger";
+
+export type SigningAlgorithm = "RS256" | "EdDSA";
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ["RS256", "EdDSA"];
+
+export type SigningKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  publicKey: KeyObject;
+  // Missing for retired keys that are only kept to verify older tokens
+  privateKey?: KeyObject;
+};
+
+export type Keyring = {
+  // Signs every new token
+  active: SigningKey & { privateKey: KeyObject };
+  // Every key a token may still be signed with, by kid
+  keys: Map<string, SigningKey>;
+};
+
+const PRIVATE_KEY_SUFFIX = ".pem";
+const PUBLIC_KEY_SUFFIX = ".pub.pem";
+
+const algorithmFor = (key: KeyObject, kid: string): SigningAlgorithm => {
+  switch (key.asymmetricKeyType) {
+    case "rsa":
+      return "RS256";
+    case "ed25519":
+      return "EdDSA";
+    default:
+      throw new Error(
+        `Unsupported key type for ${kid}: ${key.asymmetricKeyType} (use RSA or Ed25519)`
+      );
+  }
+};
+
+/**
+ * Read keys from a directory:
+ * - <kid>.pem: private key (PKCS#8), can sign
+ * - <kid>.pub.pem: public key (SPKI) of a retired key, verification only
+ */
+const loadKeysFromDir = (dir: string) => {
+  const keys = new Map<string, SigningKey>();
+
+  for (const file of readdirSync(dir).sort()) {
+    const pem = readFileSync(join(dir, file));
+
+    if (file.endsWith(PUBLIC_KEY_SUFFIX)) {
+      const kid = file.slice(0, -PUBLIC_KEY_SUFFIX.length);
+      const publicKey = createPublicKey(pem);
+      // A private key with the same kid wins
+      if (!keys.has(kid)) {
+        keys.set(kid, { kid, alg: algorithmFor(publicKey, kid), publicKey });
+      }
+    } else if (file.endsWith(PRIVATE_KEY_SUFFIX)) {
+      const kid = file.slice(0, -PRIVATE_KEY_SUFFIX.length);
+      const privateKey = createPrivateKey(pem);
+      keys.set(kid, {
+        kid,
+        alg: algorithmFor(privateKey, kid),
+        publicKey: createPublicKey(privateKey),
+        privateKey,
+      });
+    }
+  }
+
+  return keys;
+};
+
+// Throwaway Ed25519 key so development works without any setup.
+// Tokens stop verifying whenever the process restarts.
+const createEphemeralKeys = () => {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const kid = `dev-${randomUUID()}`;
+
+  logger.warn("JWT_KEYS_DIR not set - signing tokens with an ephemeral key", {
+    kid,
+  });
+
+  return new Map<string, SigningKey>([
+    [kid, { kid, alg: "EdDSA", publicKey, privateKey }],
+  ]);
+};
+
+/**
+ * Load the keys and pick the active one, from JWT_KEYS_DIR and
+ * JWT_ACTIVE_KID unless given
+ */
+export const loadKeyring = (
+  {
+    keysDir,
+    activeKid: configuredKid,
+  }: { keysDir?: string; activeKid?: string } = config.jwt
+): Keyring => {
+  // The config refuses to start without a keys directory in production
+  const keys = keysDir ? loadKeysFromDir(keysDir) : createEphemeralKeys();
+  const signingKeys = Array.from(keys.values()).filter((key) => key.privateKey);
+
+  // With a single private key there is nothing to choose
+  const activeKid =
+    configuredKid ||
+    (signingKeys.length === 1 ? signingKeys[0].kid : undefined);
+
+  if (!activeKid) {
+    throw new Error(
+      "JWT_ACTIVE_KID must name the signing key when several private keys are present"
+    );
+  }
+
+  const active = keys.get(activeKid);
+
+  if (!active?.privateKey) {
+    throw new Error(`No private key found for JWT_ACTIVE_KID ${activeKid}`);
+  }
+
+  return { active: { ...active, privateKey: active.privateKey }, keys };
+};
+
+export const keyring = loadKeyring();
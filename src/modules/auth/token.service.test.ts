@@ -0,0 +1,96 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { generateKeyPairSync, type KeyObject } from "crypto";
+import { SignJWT } from "jose";
+import { config } from "@/config";
+import { UnauthorizedError } from "@/shared/errors";
+import { keyring } from "./signing-keys";
+import { TokenService } from "./token.service";
+
+const tokenService = new TokenService();
+
+// An access token signed outside TokenService, with the given header
+const signWith = (
+  key: KeyObject,
+  header: { alg: string; kid?: string },
+  claims: Record<string, unknown> = {}
+) =>
+  new SignJWT({ token_use: "access", ...claims })
+    .setProtectedHeader(header)
+    .setIssuer(config.jwt.issuer)
+    .setSubject("user-1")
+    .setExpirationTime("5m")
+    .sign(key);
+
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+// A key rotated out: its tokens still verify, new ones are not signed with it
+const RETIRED_KID = "retired";
+const retired = generateKeyPairSync("ed25519");
+keyring.keys.set(RETIRED_KID, {
+  kid: RETIRED_KID,
+  alg: "EdDSA",
+  publicKey: retired.publicKey,
+});
+
+afterAll(() => {
+  keyring.keys.delete(RETIRED_KID);
+});
+
+describe("TokenService.verify", () => {
+  test("accepts tokens signed with the active key", async () => {
+    const token = await tokenService.sign("access", { sub: "user-1" });
+
+    expect(await tokenService.verify("access", token)).toMatchObject({
+      sub: "user-1",
+    });
+  });
+
+  test("accepts tokens signed with a retired key", async () => {
+    const token = await signWith(retired.privateKey, {
+      alg: "EdDSA",
+      kid: RETIRED_KID,
+    });
+
+    expect(await tokenService.verify("access", token)).toMatchObject({
+      sub: "user-1",
+    });
+  });
+
+  test("signs with the active key only", async () => {
+    const token = await tokenService.sign("access", { sub: "user-1" });
+    const header = JSON.parse(atob(token.split(".")[0]));
+
+    expect(header.kid).toBe(keyring.active.kid);
+  });
+
+  test.each([
+    ["an unknown kid", { alg: "EdDSA", kid: "unknown" }],
+    ["no kid", { alg: "EdDSA" }],
+  ])("rejects tokens with %s", async (_, header) => {
+    const token = await signWith(retired.privateKey, header);
+
+    await expect(tokenService.verify("access", token)).rejects.toBeInstanceOf(
+      UnauthorizedError
+    );
+  });
+
+  test("rejects tokens whose alg does not match their kid's key", async () => {
+    // Signed with a key of the right type for the header, but not the kid's
+    const token = await signWith(rsa.privateKey, {
+      alg: "RS256",
+      kid: keyring.active.kid,
+    });
+
+    const error = await tokenService.verify("access", token).catch((e) => e);
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error.message).toBe("Unknown signing key");
+  });
+
+  test("rejects tokens of another type", async () => {
+    const token = await tokenService.sign("refresh", { sub: "user-1" });
+
+    await expect(tokenService.verify("access", token)).rejects.toBeInstanceOf(
+      UnauthorizedError
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import {
+  exportJWK,
+  jwtVerify,
+  SignJWT,
+  type JWK,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from "jose";
+import { config } from "@/config";
+import { UnauthorizedError } from "@/shared/errors";
+import { keyring, SIGNING_ALGORITHMS } from "./signing-keys";
+
+/**
+ * Every JWT this API issues. The type travels in the token_use claim so a
+ * token of one kind can never be accepted as another.
+ */
+export type TokenType = "access" | "refresh" | "verify-email" | "2fa-challenge";
+
+// Resolve the verification key from the token's kid header
+const getVerificationKey: JWTVerifyGetKey = (header) => {
+  const key = header.kid ? keyring.keys.get(header.kid) : undefined;
+
+  if (!key || key.alg !== header.alg) {
+    throw new UnauthorizedError("Unknown signing key");
+  }
+
+  return key.publicKey;
+};
+
+export class TokenService {
+  /**
+   * Sign a token with the active key. Expires after the type's default
+   * lifetime unless `expiresAt` is given.
+   */
+  async sign(
+    type: TokenType,
+    claims: { sub: string } & Record<string, unknown>,
+    { expiresAt }: { expiresAt?: Date } = {}
+  ) {
+    const { active } = keyring;
+
+    return await new SignJWT({ ...claims, token_use: type })
+      .setProtectedHeader({ alg: active.alg, kid: active.kid, typ: "JWT" })
+      .setIssuer(config.jwt.issuer)
+      .setIssuedAt()
+      // A fresh jti keeps two tokens signed within the same second distinct
+      .setJti(randomUUID())
+      .setExpirationTime(expiresAt ?? `${config.jwt.ttl[type]}s`)
+      .sign(active.privateKey);
+  }
+
+  /**
+   * Verify signature, issuer, expiry and type. Throws if any check fails.
+   */
+  async verify<T extends Record<string, unknown>>(
+    type: TokenType,
+    token: string
+  ) {
+    const { payload } = await jwtVerify(token, getVerificationKey, {
+      issuer: config.jwt.issuer,
+      algorithms: SIGNING_ALGORITHMS,
+    });
+
+    if (payload.token_use !== type) {
+      throw new UnauthorizedError("Unexpected token type");
+    }
+
+    return payload as JWTPayload & { sub: string } & T;
+  }
+
+  /**
+   * Public halves of every key still accepted, for /.well-known/jwks.json
+   */
+  async getJwks() {
+    const keys: JWK[] = [];
+
+    for (const key of Array.from(keyring.keys.values())) {
+      keys.push({
+        ...(await exportJWK(key.publicKey)),
+        kid: key.kid,
+        alg: key.alg,
+        use: "sig",
+      });
+    }
+
+    return { keys };
+  }
+}
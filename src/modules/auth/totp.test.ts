@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from "./totp";
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890", in base32
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+// Unix time and the expected 8-digit TOTP from the RFC. The app uses 6
+// digits, which are the last 6 of the same truncated value.
+const RFC_VECTORS: [number, string][] = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("base32", () => {
+  // RFC 4648 section 10, without padding
+  test.each([
+    ["", ""],
+    ["f", "MY"],
+    ["fo", "MZXQ"],
+    ["foo", "MZXW6"],
+    ["foob", "MZXW6YQ"],
+    ["fooba", "MZXW6YTB"],
+    ["foobar", "MZXW6YTBOI"],
+  ])("encodes %p as %p", (plain, encoded) => {
+    expect(base32Encode(Buffer.from(plain))).toBe(encoded);
+    expect(base32Decode(encoded).toString()).toBe(plain);
+  });
+
+  test("decodes lowercase, padded and spaced input", () => {
+    expect(base32Decode("mzxw 6ytb oi======").toString()).toBe("foobar");
+  });
+
+  test("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character");
+  });
+});
+
+describe("generateTotp", () => {
+  test.each(RFC_VECTORS)("matches the RFC 6238 vector at %p", (time, otp) => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(time * 1000))).toBe(
+      otp.slice(-6)
+    );
+  });
+
+  test("generates 160-bit secrets", () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111111 * 1000;
+  const step = getTotpStep(now);
+
+  test("returns the step of a valid code", () => {
+    expect(verifyTotp(RFC_SECRET, "050471", { now })).toBe(step);
+  });
+
+  test("accepts codes one step either side", () => {
+    const previous = generateTotp(RFC_SECRET, step - 1);
+    const next = generateTotp(RFC_SECRET, step + 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, next, { now })).toBe(step + 1);
+  });
+
+  test("rejects codes outside the window", () => {
+    const stale = generateTotp(RFC_SECRET, step - 2);
+
+    expect(verifyTotp(RFC_SECRET, stale, { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, stale, { now, window: 2 })).toBe(step - 2);
+  });
+
+  test("ignores spaces", () => {
+    expect(verifyTotp(RFC_SECRET, "050 471", { now })).toBe(step);
+  });
+
+  test.each(["", "12345", "1234567", "05047a", "wrong!"])(
+    "rejects the malformed code %p",
+    (code) => {
+      expect(verifyTotp(RFC_SECRET, code, { now })).toBeNull();
+    }
+  );
+});
+
+describe("buildOtpAuthUri", () => {
+  test("encodes the label and the parameters authenticator apps read", () => {
+    const uri = new URL(
+      buildOtpAuthUri({
+        issuer: "Honoko",
+        account: "jane@example.com",
+        secret: "JBSWY3DPEHPK3PXP",
+      })
+    );
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/Honoko:jane@example.com");
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: "JBSWY3DPEHPK3PXP",
+      issuer: "Honoko",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mockPrisma } from "@/test/prisma";
+import { UnauthorizedError } from "@/shared/errors";
+import {
+  ChallengeSpentError,
+  LoginLockedError,
+} from "./login-throttle.service";
+import { generateTotp, getTotpStep } from "./totp";
+import { TwoFactorService } from "./two-factor.service";
+
+type UserRow = {
+  twoFactorSecret: string | null;
+  twoFactorEnabledAt: Date | null;
+  twoFactorLastUsedStep: number | null;
+};
+
+// One user, enough of prisma.user and prisma.recoveryCode for the service
+let user: UserRow;
+
+mockPrisma({
+  user: {
+    findUnique: async () => user,
+    update: async ({ data }: { data: Partial<UserRow> }) => {
+      Object.assign(user, data);
+    },
+    updateMany: async ({
+      data,
+    }: {
+      data: { twoFactorLastUsedStep: number };
+    }) => {
+      const fresh =
+        user.twoFactorLastUsedStep === null ||
+        user.twoFactorLastUsedStep < data.twoFactorLastUsedStep;
+      if (fresh) Object.assign(user, data);
+      return { count: fresh ? 1 : 0 };
+    },
+  },
+  recoveryCode: { updateMany: async () => ({ count: 0 }) },
+});
+
+const twoFactorService = new TwoFactorService();
+
+// Not a TOTP code, and no recovery code matches it
+const WRONG_CODE = "wrong-guess";
+
+let secret: string;
+let userCount = 0;
+let userId: string;
+
+beforeEach(async () => {
+  // A fresh user per test, the lockout store outlives them
+  userId = `user-${++userCount}`;
+  user = {
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastUsedStep: null,
+  };
+
+  ({ secret } = await twoFactorService.enroll({
+    id: userId,
+    email: "jane@example.com",
+  }));
+  user.twoFactorEnabledAt = new Date();
+});
+
+// Settle parallel attempts and count the codes that were actually checked
+// (wrong code) and those turned away before the check
+const burst = async (attempts: Promise<unknown>[]) => {
+  const errors = (await Promise.allSettled(attempts)).map((result) =>
+    result.status === "rejected" ? result.reason : undefined
+  );
+
+  return {
+    checked: errors.filter(
+      (error) =>
+        error instanceof UnauthorizedError &&
+        !(error instanceof ChallengeSpentError)
+    ).length,
+    spent: errors.filter((error) => error instanceof ChallengeSpentError)
+      .length,
+    locked: errors.filter((error) => error instanceof LoginLockedError).length,
+  };
+};
+
+describe("verifyChallenge", () => {
+  test("passes a correct code once per challenge", async () => {
+    const challengeToken = await twoFactorService.createChallenge(userId);
+    const code = generateTotp(secret, getTotpStep());
+
+    expect(await twoFactorService.verifyChallenge(challengeToken, code)).toBe(
+      userId
+    );
+    await expect(
+      twoFactorService.verifyChallenge(challengeToken, code)
+    ).rejects.toBeInstanceOf(ChallengeSpentError);
+  });
+
+  test("checks 3 codes of a parallel burst on one challenge", async () => {
+    const challengeToken = await twoFactorService.createChallenge(userId);
+
+    const results = await burst(
+      Array.from({ length: 10 }, () =>
+        twoFactorService.verifyChallenge(challengeToken, WRONG_CODE)
+      )
+    );
+
+    expect(results).toEqual({ checked: 3, spent: 7, locked: 0 });
+  });
+
+  test("checks 5 codes of a parallel burst across challenges", async () => {
+    const challengeTokens = await Promise.all(
+      Array.from({ length: 4 }, () => twoFactorService.createChallenge(userId))
+    );
+
+    const { checked } = await burst(
+      Array.from({ length: 12 }, (_, i) =>
+        twoFactorService.verifyChallenge(challengeTokens[i % 4], WRONG_CODE)
+      )
+    );
+
+    expect(checked).toBe(5);
+
+    // Locked out now, even with the right code on a new challenge
+    const challengeToken = await twoFactorService.createChallenge(userId);
+    await expect(
+      twoFactorService.verifyChallenge(
+        challengeToken,
+        generateTotp(secret, getTotpStep())
+      )
+    ).rejects.toBeInstanceOf(LoginLockedError);
+  });
+});
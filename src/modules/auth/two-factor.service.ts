@@ -0,0 +1,290 @@
+import { prisma } from "@/prisma";
+import { config } from "@/config";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { logger } from "@/middleware/logger";
+import { hashToken } from "./auth.utils";
+import { TokenService } from "./token.service";
+import { LoginThrottleService } from "./login-throttle.service";
+import type { SessionMeta } from "./session.service";
+import { AuditService } from "@/modules/audit/audit.service";
+import {
+  BadRequestError,
+  ConflictError,
+  UnauthorizedError,
+} from "@/shared/errors";
+import {
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "./totp";
+
+const RECOVERY_CODE_COUNT = 10;
+
+const tokenService = new TokenService();
+const auditService = new AuditService();
+const loginThrottleService = new LoginThrottleService();
+
+// AES-256-GCM with a key derived from TWO_FACTOR_ENCRYPTION_KEY
+const encryptionKey = () =>
+  createHash("sha256").update(config.twoFactor.encryptionKey).digest();
+
+const encryptSecret = (secret: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+};
+
+const decryptSecret = (payload: string) => {
+  const [iv, tag, encrypted] = payload
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([
+    decipher.update(encrypted),
+    decipher.final(),
+  ]).toString();
+};
+
+// Recovery codes look like "abcde-fghij"; case, spaces and dashes are ignored
+const normalizeRecoveryCode = (code: string) =>
+  code.toLowerCase().replace(/[\s-]/g, "");
+
+const generateRecoveryCode = () => {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+export class TwoFactorService {
+  /**
+   * Generate a new TOTP secret for the user. It only takes effect once
+   * confirmed with a code from the authenticator app.
+   */
+  async enroll(user: { id: string; email: string }) {
+    const existing = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { twoFactorEnabledAt: true },
+    });
+
+    if (existing?.twoFactorEnabledAt) {
+      throw new ConflictError("Two-factor authentication already enabled");
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptSecret(secret),
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    const otpauthUrl = buildOtpAuthUri({
+      issuer: config.twoFactor.issuer,
+      account: user.email,
+      secret,
+    });
+
+    return { secret, otpauthUrl };
+  }
+
+  /**
+   * Activate two-factor authentication and return fresh recovery codes.
+   * The plain codes are only ever shown here.
+   */
+  async confirm(userId: string, code: string, meta: SessionMeta = {}) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+    });
+
+    if (user?.twoFactorEnabledAt) {
+      throw new ConflictError("Two-factor authentication already enabled");
+    }
+
+    if (!user?.twoFactorSecret) {
+      throw new BadRequestError("Two-factor enrollment not started");
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+
+    if (step === null) {
+      throw new BadRequestError("Invalid two-factor code");
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastUsedStep: step },
+    });
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    await auditService.record(userId, "2fa.enabled", meta);
+    logger.info("Two-factor authentication enabled", { userId });
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, code: string, meta: SessionMeta = {}) {
+    await this.assertValidCode(userId, code);
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+    ]);
+
+    await auditService.record(userId, "2fa.disabled", meta);
+    logger.info("Two-factor authentication disabled", { userId });
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    meta: SessionMeta = {}
+  ) {
+    await this.assertValidCode(userId, code);
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    await auditService.record(userId, "2fa.recovery_codes_regenerated", meta);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Short-lived token proving the password step succeeded
+   */
+  async createChallenge(userId: string) {
+    return await tokenService.sign("2fa-challenge", { sub: userId });
+  }
+
+  /**
+   * Complete a login challenge with a TOTP or recovery code. Each
+   * challenge works once, and wrong codes count towards a lockout.
+   * Returns the id of the user who passed it.
+   */
+  async verifyChallenge(challengeToken: string, code: string) {
+    let challenge: { sub: string; jti?: string; exp?: number };
+    try {
+      challenge = await tokenService.verify("2fa-challenge", challengeToken);
+    } catch {
+      throw new UnauthorizedError("Invalid or expired challenge");
+    }
+
+    const { sub: userId, jti, exp } = challenge;
+
+    if (!jti || !exp) {
+      throw new UnauthorizedError("Invalid or expired challenge");
+    }
+
+    const throttleTarget = {
+      userId,
+      challengeId: jti,
+      challengeExpiresAt: new Date(exp * 1000),
+    };
+
+    // Counted before the code is checked, see reserveTwoFactorAttempt()
+    await loginThrottleService.reserveTwoFactorAttempt(throttleTarget);
+
+    // A wrong code fails the login rather than the request
+    try {
+      await this.assertValidCode(userId, code);
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        await loginThrottleService.recordTwoFactorFailure(throttleTarget);
+        throw new UnauthorizedError(error.message);
+      }
+      throw error;
+    }
+
+    await loginThrottleService.recordTwoFactorSuccess(throttleTarget);
+
+    return userId;
+  }
+
+  private async assertValidCode(userId: string, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLastUsedStep: true,
+      },
+    });
+
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw new BadRequestError("Two-factor authentication not enabled");
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+
+    if (step !== null) {
+      // Accept each time step at most once
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+
+      if (count > 0) return;
+    } else {
+      const { count } = await prisma.recoveryCode.updateMany({
+        where: {
+          userId,
+          codeHash: hashToken(normalizeRecoveryCode(code)),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+
+      if (count > 0) {
+        logger.info("Recovery code used", { userId });
+        return;
+      }
+    }
+
+    throw new BadRequestError("Invalid two-factor code");
+  }
+
+  private async replaceRecoveryCodes(userId: string) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode()
+    );
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.recoveryCode.createMany({
+        data: codes.map((code) => ({
+          userId,
+          codeHash: hashToken(normalizeRecoveryCode(code)),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+}
@@ -1,4 +1,17 @@
 export { profileController } from "./profile.controller";
 export { ProfileService } from "./profile.service";
-export { ProfileSchema, UpdateProfileSchema } from "./profile.schema";
-export type { Profile, UpdateProfile } from "./profile.schema";
+export {
+  ProfileSchema,
+  UpdateProfileSchema,
+  ChangePasswordSchema,
+  AvatarUploadSchema,
+  DeleteAccountSchema,
+  DeletedAccountSchema,
+  ProfileExportSchema,
+} from "./profile.schema";
+export type {
+  Profile,
+  UpdateProfile,
+  ChangePassword,
+  DeleteAccount,
+} from "./profile.schema";
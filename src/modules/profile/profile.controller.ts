@@ -1,34 +1,91 @@
-import { OpenAPIHono, createRoute } from "@hono/zod-openapi";
-import { injectUser } from "@/middleware/user-injection";
-import { authMiddleware } from "@/middleware/auth";
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { bodyLimit } from "hono/body-limit";
+import { deleteCookie } from "hono/cookie";
+import { getUser, injectUser } from "@/middleware/user-injection";
+import { etag, getIfMatchVersion } from "@/middleware/etag";
+import {
+  authMiddleware,
+  requireScope,
+  requireSession,
+} from "@/middleware/auth";
 import { logger } from "@/middleware/logger";
-import { UserSchema } from "../users/user.schema";
-import { errorSchema } from "@/shared/api";
+import { cookieOptions, getSessionMeta } from "@/modules/auth/auth.utils";
+import { defaultHook, errorSchema, successSchema } from "@/shared/api";
+import { BadRequestError, PayloadTooLargeError } from "@/shared/errors";
 import { withUser } from "@/utils/decorators";
+import { AVATAR_MAX_BYTES, ProfileService } from "./profile.service";
+import {
+  AvatarUploadSchema,
+  ChangePasswordSchema,
+  DeleteAccountSchema,
+  DeletedAccountSchema,
+  ProfileExportSchema,
+  ProfileSchema,
+  UpdateProfileSchema,
+} from "./profile.schema";
+import { TwoFactorService } from "@/modules/auth/two-factor.service";
+import { PersonalAccessTokenService } from "@/modules/auth/personal-access-token.service";
+import {
+  CreatePersonalAccessTokenSchema,
+  CreatedPersonalAccessTokenSchema,
+  PersonalAccessTokenSchema,
+  RecoveryCodesSchema,
+  TokenParamsSchema,
+  TwoFactorCodeSchema,
+  TwoFactorEnrollmentSchema,
+} from "@/modules/auth/auth.schema";
 
-export const profileController = new OpenAPIHono();
+const profileService = new ProfileService();
+const twoFactorService = new TwoFactorService();
+const personalAccessTokenService = new PersonalAccessTokenService();
+
+export const profileController = new OpenAPIHono({ defaultHook });
 
 // Apply middleware chain: auth -> inject user
 profileController.use("/*", authMiddleware);
 profileController.use("/*", injectUser);
 
+// Version of the caller's profile, for ETag / If-Match
+const profileVersion = etag((c) => profileService.getVersion(c.get("userId")));
+
+// Credentials can only be managed from a real login, not with a token
+profileController.use("/2fa/*", requireSession);
+profileController.use("/tokens/*", requireSession);
+profileController.use("/password", requireSession);
+
 profileController.openapi(
   createRoute({
     method: "get",
     path: "/",
     tags: ["Profile"],
+    middleware: [
+      requireScope("profile:read"),
+      // The injected user is fresh for this request, no need to query again
+      etag((c) => getUser(c).updatedAt),
+    ] as const,
     responses: {
       200: {
         content: {
           "application/json": {
-            schema: UserSchema,
+            schema: ProfileSchema,
           },
         },
         description: "User profile retrieved",
       },
+      304: {
+        description: "Not modified since the ETag in If-None-Match",
+      },
+      403: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Token is missing the profile:read scope",
+      },
       401: {
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -41,3 +98,641 @@ profileController.openapi(
     return c.json(user);
   })
 );
+
+// PATCH /profile - Update name and surname
+profileController.openapi(
+  createRoute({
+    method: "patch",
+    path: "/",
+    tags: ["Profile"],
+    middleware: [requireScope("profile:write"), profileVersion] as const,
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: UpdateProfileSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(ProfileSchema),
+          },
+        },
+        description: "Profile updated",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Invalid request data",
+      },
+      403: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Token is missing the profile:write scope",
+      },
+      412: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Profile was modified since the ETag in If-Match",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const body = c.req.valid("json");
+    const profile = await profileService.updateProfile(
+      user.id,
+      body,
+      getSessionMeta(c),
+      getIfMatchVersion(c)
+    );
+
+    logger.info("Profile updated", { userId: user.id }, c);
+
+    return c.json({ success: true, data: profile }, 200);
+  }
+);
+
+// Multipart overhead allowed on top of the image itself
+const MULTIPART_OVERHEAD_BYTES = 16 * 1024;
+
+// PUT /profile/avatar - Upload a new avatar image
+profileController.openapi(
+  createRoute({
+    method: "put",
+    path: "/avatar",
+    tags: ["Profile"],
+    middleware: [
+      requireScope("profile:write"),
+      // Reject oversized uploads before reading them
+      bodyLimit({
+        maxSize: AVATAR_MAX_BYTES + MULTIPART_OVERHEAD_BYTES,
+        onError: () => {
+          throw new PayloadTooLargeError("Avatar too large");
+        },
+      }),
+      profileVersion,
+    ] as const,
+    request: {
+      body: {
+        required: true,
+        content: {
+          "multipart/form-data": {
+            schema: AvatarUploadSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(ProfileSchema),
+          },
+        },
+        description: "Avatar updated",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "No avatar file in the request",
+      },
+      403: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Token is missing the profile:write scope",
+      },
+      412: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Profile was modified since the ETag in If-Match",
+      },
+      413: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: `Image larger than ${AVATAR_MAX_BYTES} bytes`,
+      },
+      415: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Not a PNG, JPEG, WebP or GIF image",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const { avatar } = c.req.valid("form");
+
+    if (!(avatar instanceof File)) {
+      throw new BadRequestError("Missing avatar file");
+    }
+
+    const profile = await profileService.updateAvatar(
+      user.id,
+      avatar,
+      getSessionMeta(c),
+      getIfMatchVersion(c)
+    );
+    return c.json({ success: true, data: profile }, 200);
+  }
+);
+
+// GET /profile/export - Download everything stored about the caller
+profileController.openapi(
+  createRoute({
+    method: "get",
+    path: "/export",
+    tags: ["Profile"],
+    middleware: [requireSession] as const,
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: ProfileExportSchema,
+          },
+        },
+        description: "Versioned JSON archive of the caller's personal data",
+      },
+      403: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Personal access tokens cannot export data",
+      },
+    },
+  }),
+  withUser(async (user, c) => {
+    const archive = await profileService.exportData(user.id);
+    const date = archive.exportedAt.toISOString().slice(0, 10);
+
+    return c.json(archive, 200, {
+      "Content-Disposition": `attachment; filename="profile-export-${date}.json"`,
+    });
+  })
+);
+
+// DELETE /profile - Delete the caller's account
+profileController.openapi(
+  createRoute({
+    method: "delete",
+    path: "/",
+    tags: ["Profile"],
+    middleware: [requireSession] as const,
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: DeleteAccountSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(DeletedAccountSchema),
+          },
+        },
+        description:
+          "Account deleted and signed out everywhere; data is purged after the grace period",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Invalid request data or wrong password",
+      },
+      403: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Personal access tokens cannot delete the account",
+      },
+      429: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description:
+          "Too many wrong passwords, retry after the Retry-After header",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const body = c.req.valid("json");
+    const result = await profileService.deleteAccount(
+      user.id,
+      body,
+      getSessionMeta(c)
+    );
+
+    deleteCookie(c, "accessToken", cookieOptions.access);
+    deleteCookie(c, "refreshToken", cookieOptions.refresh);
+
+    return c.json({ success: true, data: result }, 200);
+  }
+);
+
+// POST /profile/password - Change the password
+profileController.openapi(
+  createRoute({
+    method: "post",
+    path: "/password",
+    tags: ["Profile"],
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: ChangePasswordSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+        description:
+          "Password changed, other sessions signed out and personal access tokens revoked",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description:
+          "Invalid request data, password policy violation or wrong current password",
+      },
+      429: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description:
+          "Too many wrong passwords, retry after the Retry-After header",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const body = c.req.valid("json");
+    await profileService.changePassword(
+      user.id,
+      body,
+      c.get("sessionId"),
+      getSessionMeta(c)
+    );
+
+    return c.json({ success: true }, 200);
+  }
+);
+
+// POST /profile/2fa/enroll - Start two-factor enrollment
+profileController.openapi(
+  createRoute({
+    method: "post",
+    path: "/2fa/enroll",
+    tags: ["Profile"],
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(TwoFactorEnrollmentSchema),
+          },
+        },
+        description:
+          "Secret generated, confirm it with a code from the authenticator app",
+      },
+      409: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Two-factor authentication already enabled",
+      },
+    },
+  }),
+  withUser(async (user, c) => {
+    const enrollment = await twoFactorService.enroll(user);
+
+    logger.info("Two-factor enrollment started", { userId: user.id }, c);
+
+    return c.json({ success: true, data: enrollment }, 200);
+  })
+);
+
+// POST /profile/2fa/confirm - Activate two-factor authentication
+profileController.openapi(
+  createRoute({
+    method: "post",
+    path: "/2fa/confirm",
+    tags: ["Profile"],
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: TwoFactorCodeSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(RecoveryCodesSchema),
+          },
+        },
+        description: "Two-factor authentication enabled",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Enrollment not started or invalid code",
+      },
+      409: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Two-factor authentication already enabled",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const { code } = c.req.valid("json");
+    const recoveryCodes = await twoFactorService.confirm(
+      user.id,
+      code,
+      getSessionMeta(c)
+    );
+
+    return c.json({ success: true, data: { recoveryCodes } }, 200);
+  }
+);
+
+// POST /profile/2fa/recovery-codes - Replace the recovery codes
+profileController.openapi(
+  createRoute({
+    method: "post",
+    path: "/2fa/recovery-codes",
+    tags: ["Profile"],
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: TwoFactorCodeSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(RecoveryCodesSchema),
+          },
+        },
+        description: "New recovery codes generated, the old ones are void",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Two-factor authentication not enabled or invalid code",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const { code } = c.req.valid("json");
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      code,
+      getSessionMeta(c)
+    );
+
+    logger.info("Recovery codes regenerated", { userId: user.id }, c);
+
+    return c.json({ success: true, data: { recoveryCodes } }, 200);
+  }
+);
+
+// POST /profile/2fa/disable - Turn off two-factor authentication
+profileController.openapi(
+  createRoute({
+    method: "post",
+    path: "/2fa/disable",
+    tags: ["Profile"],
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: TwoFactorCodeSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+        description: "Two-factor authentication disabled",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Two-factor authentication not enabled or invalid code",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const { code } = c.req.valid("json");
+    await twoFactorService.disable(user.id, code, getSessionMeta(c));
+
+    return c.json({ success: true }, 200);
+  }
+);
+
+// GET /profile/tokens - List personal access tokens
+profileController.openapi(
+  createRoute({
+    method: "get",
+    path: "/tokens",
+    tags: ["Profile"],
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(z.array(PersonalAccessTokenSchema)),
+          },
+        },
+        description: "Active personal access tokens",
+      },
+    },
+  }),
+  withUser(async (user, c) => {
+    const tokens = await personalAccessTokenService.list(user.id);
+    return c.json({ success: true, data: tokens }, 200);
+  })
+);
+
+// POST /profile/tokens - Create a personal access token
+profileController.openapi(
+  createRoute({
+    method: "post",
+    path: "/tokens",
+    tags: ["Profile"],
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: CreatePersonalAccessTokenSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        content: {
+          "application/json": {
+            schema: successSchema(CreatedPersonalAccessTokenSchema),
+          },
+        },
+        description: "Token created. The token value is shown only once",
+      },
+      400: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Invalid request data",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const body = c.req.valid("json");
+    const token = await personalAccessTokenService.create(
+      user.id,
+      body,
+      getSessionMeta(c)
+    );
+
+    logger.info(
+      "Personal access token created",
+      { userId: user.id, tokenId: token.id, scopes: token.scopes },
+      c
+    );
+
+    return c.json({ success: true, data: token }, 201);
+  }
+);
+
+// DELETE /profile/tokens/:id - Revoke a personal access token
+profileController.openapi(
+  createRoute({
+    method: "delete",
+    path: "/tokens/:id",
+    tags: ["Profile"],
+    request: {
+      params: TokenParamsSchema,
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: successSchema(),
+          },
+        },
+        description: "Token revoked",
+      },
+      404: {
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+        description: "Token not found",
+      },
+    },
+  }),
+  async (c) => {
+    const user = getUser(c);
+    const { id } = c.req.valid("param");
+    await personalAccessTokenService.revoke(user.id, id, getSessionMeta(c));
+
+    logger.info(
+      "Personal access token revoked",
+      { userId: user.id, tokenId: id },
+      c
+    );
+
+    return c.json({ success: true }, 200);
+  }
+);
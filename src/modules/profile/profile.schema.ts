@@ -1,10 +1,23 @@
 import { z } from "@hono/zod-openapi";
+import { passwordSchema } from "@/modules/auth/password";
 
 export const ProfileSchema = z.object({
   id: z.string().describe("The id of the user"),
   name: z.string().describe("The name of the user"),
   surname: z.string().describe("The surname of the user"),
   email: z.string().email().describe("The email of the user"),
+  avatarUrl: z
+    .string()
+    .nullable()
+    .describe("URL of the user's avatar image, if they uploaded one"),
+  emailVerifiedAt: z
+    .date()
+    .nullable()
+    .describe("When the user verified their email, if they have"),
+  role: z.enum(["ADMIN", "MEMBER"]).describe("The role of the user"),
+  permissions: z
+    .array(z.string())
+    .describe("Permissions granted on top of the role"),
   createdAt: z.date().describe("The creation date of the user"),
   updatedAt: z.date().describe("The last update date of the user"),
 });
@@ -14,5 +27,77 @@ export const UpdateProfileSchema = z.object({
   surname: z.string().min(1).describe("The surname of the user").optional(),
 });
 
+export const ChangePasswordSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1)
+    .describe("The current password of the user"),
+  newPassword: passwordSchema.describe("The new password of the user"),
+});
+
+export const DeleteAccountSchema = z.object({
+  password: z.string().min(1).describe("The current password of the user"),
+});
+
+export const DeletedAccountSchema = z.object({
+  purgeAfter: z
+    .date()
+    .describe("When the account and its data are permanently removed"),
+});
+
+export const ProfileExportSchema = z.object({
+  format: z.string().describe("Archive format identifier"),
+  version: z.number().describe("Archive format version"),
+  exportedAt: z.date().describe("When the archive was produced"),
+  user: ProfileSchema.extend({
+    twoFactorEnabledAt: z
+      .date()
+      .nullable()
+      .describe("When two-factor authentication was enabled"),
+  }),
+  sessions: z.array(
+    z.object({
+      id: z.string(),
+      userAgent: z.string().nullable(),
+      ip: z.string().nullable(),
+      createdAt: z.date(),
+      lastUsedAt: z.date(),
+      expiresAt: z.date(),
+      revokedAt: z.date().nullable(),
+    })
+  ),
+  personalAccessTokens: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      prefix: z.string(),
+      scopes: z.array(z.string()),
+      expiresAt: z.date(),
+      lastUsedAt: z.date().nullable(),
+      revokedAt: z.date().nullable(),
+      createdAt: z.date(),
+    })
+  ),
+  auditEvents: z.array(
+    z.object({
+      id: z.string(),
+      action: z.string(),
+      ip: z.string().nullable(),
+      userAgent: z.string().nullable(),
+      metadata: z.any(),
+      createdAt: z.date(),
+    })
+  ),
+});
+
+export const AvatarUploadSchema = z.object({
+  avatar: z
+    .any()
+    .openapi({ type: "string", format: "binary" })
+    .describe("PNG, JPEG, WebP or GIF image"),
+});
+
 export type Profile = z.infer<typeof ProfileSchema>;
 export type UpdateProfile = z.infer<typeof UpdateProfileSchema>;
+export type ChangePassword = z.infer<typeof ChangePasswordSchema>;
+export type DeleteAccount = z.infer<typeof DeleteAccountSchema>;
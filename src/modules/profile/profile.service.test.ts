@@ -0,0 +1,102 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { mockPrisma } from "@/test/prisma";
+import { BadRequestError } from "@/shared/errors";
+import { hashPassword } from "@/modules/auth/password";
+import { LoginLockedError } from "@/modules/auth/login-throttle.service";
+import { ProfileService } from "./profile.service";
+
+const PASSWORD = "correct horse battery staple";
+const passwordHash = hashPassword(PASSWORD);
+
+let email: string;
+let passwordChanged: boolean;
+let deleted: boolean;
+
+mockPrisma({
+  user: {
+    findUnique: async () => ({ email, password: await passwordHash }),
+    update: async () => {
+      passwordChanged = true;
+    },
+  },
+  // Only reached when deleteUser() runs
+  $transaction: async () => {
+    deleted = true;
+  },
+  session: { updateMany: async () => ({ count: 0 }) },
+  personalAccessToken: { updateMany: async () => ({ count: 0 }) },
+  auditEvent: { create: async () => ({}) },
+});
+
+const profileService = new ProfileService();
+
+let userCount = 0;
+
+beforeEach(() => {
+  // A fresh account per test, the lockout store outlives them
+  email = `user${++userCount}@example.com`;
+  passwordChanged = false;
+  deleted = false;
+
+  // Skip the progressive delay
+  spyOn(globalThis, "setTimeout").mockImplementation(((
+    callback: () => void
+  ) => {
+    callback();
+    return 0;
+  }) as unknown as typeof setTimeout);
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+const changePassword = (currentPassword: string) =>
+  profileService.changePassword("user-1", {
+    currentPassword,
+    newPassword: "a brand new passphrase",
+  });
+
+describe("changePassword", () => {
+  test("changes the password when the current one is right", async () => {
+    await changePassword(PASSWORD);
+
+    expect(passwordChanged).toBe(true);
+  });
+
+  test("locks the account after 5 wrong current passwords", async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(changePassword(`guess-${i}`)).rejects.toBeInstanceOf(
+        BadRequestError
+      );
+    }
+
+    await expect(changePassword(PASSWORD)).rejects.toBeInstanceOf(
+      LoginLockedError
+    );
+    expect(passwordChanged).toBe(false);
+  });
+});
+
+describe("deleteAccount", () => {
+  test("locks the account after 5 wrong passwords", async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(
+        profileService.deleteAccount("user-1", { password: `guess-${i}` })
+      ).rejects.toBeInstanceOf(BadRequestError);
+    }
+
+    await expect(
+      profileService.deleteAccount("user-1", { password: PASSWORD })
+    ).rejects.toBeInstanceOf(LoginLockedError);
+    expect(deleted).toBe(false);
+  });
+});
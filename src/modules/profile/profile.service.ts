@@ -1,24 +1,374 @@
 import { prisma } from "@/prisma";
+import { config } from "@/config";
+import bcrypt from "bcrypt";
+import type { Prisma } from "@prisma/client";
+import { randomUUID } from "crypto";
 import { logger } from "@/middleware/logger";
+import { preconditionFailed } from "@/middleware/etag";
+import { storage } from "@/storage";
+import {
+  BadRequestError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "@/shared/errors";
+import { hashPassword } from "@/modules/auth/password";
+import {
+  SessionService,
+  type SessionMeta,
+} from "@/modules/auth/session.service";
+import { PersonalAccessTokenService } from "@/modules/auth/personal-access-token.service";
+import { LoginThrottleService } from "@/modules/auth/login-throttle.service";
+import { AuditService } from "@/modules/audit/audit.service";
+import { UserService } from "@/modules/users/users.service";
+import type {
+  ChangePassword,
+  DeleteAccount,
+  UpdateProfile,
+} from "./profile.schema";
+
+const sessionService = new SessionService();
+const personalAccessTokenService = new PersonalAccessTokenService();
+const loginThrottleService = new LoginThrottleService();
+const auditService = new AuditService();
+const userService = new UserService();
+
+// Identifies the export archive layout; bump the version on breaking changes
+export const PROFILE_EXPORT_FORMAT = "honoko.profile-export";
+export const PROFILE_EXPORT_VERSION = 1;
+
+export const AVATAR_MAX_BYTES = config.avatar.maxBytes;
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+// Accepted image types, recognised by their leading bytes rather than the
+// client-supplied Content-Type
+const AVATAR_TYPES = [
+  {
+    contentType: "image/png",
+    extension: "png",
+    matches: (b: Uint8Array) =>
+      [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every(
+        (byte, i) => b[i] === byte
+      ),
+  },
+  {
+    contentType: "image/jpeg",
+    extension: "jpg",
+    matches: (b: Uint8Array) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  },
+  {
+    contentType: "image/gif",
+    extension: "gif",
+    matches: (b: Uint8Array) => /^GIF8[79]a$/.test(ascii(b, 0, 6)),
+  },
+  {
+    contentType: "image/webp",
+    extension: "webp",
+    matches: (b: Uint8Array) =>
+      ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 12) === "WEBP",
+  },
+];
+
+const profileSelect = {
+  id: true,
+  name: true,
+  surname: true,
+  email: true,
+  avatarKey: true,
+  emailVerifiedAt: true,
+  role: true,
+  permissions: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const toProfile = <T extends { avatarKey: string | null }>({
+  avatarKey,
+  ...user
+}: T) => ({
+  ...user,
+  avatarUrl: avatarKey ? storage.url(avatarKey) : null,
+});
 
 export class ProfileService {
   async getProfile(userId: string) {
-    // Fetch user from database
+    // Fetch user from database. Deleted users have no profile, which also
+    // stops any token they still hold from working
     const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        id: true,
-        email: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      where: { id: userId, deletedAt: null },
+      select: profileSelect,
     });
 
     if (!user) {
-      logger.warn("User injection failed - User not found", { userId });
-      return { error: "User not found" };
+      throw new NotFoundError("User not found");
     }
 
+    return toProfile(user);
+  }
+
+  /**
+   * Last modification time, used as the profile's ETag version
+   */
+  async getVersion(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId, deletedAt: null },
+      select: { updatedAt: true },
+    });
+    return user?.updatedAt ?? null;
+  }
+
+  /**
+   * Apply profile changes. With `expectedVersion`, only while the profile
+   * is still at that version, so concurrent edits cannot overwrite each other.
+   */
+  async updateProfile(
+    userId: string,
+    data: UpdateProfile,
+    meta: SessionMeta = {},
+    expectedVersion?: Date | string
+  ) {
+    await this.writeIfUnchanged(userId, data, expectedVersion);
+    const user = await this.getProfile(userId);
+
+    await auditService.record(userId, "profile.updated", {
+      ...meta,
+      metadata: { fields: Object.keys(data) },
+    });
+
     return user;
   }
+
+  /**
+   * Replace the user's avatar. The image gets a new key on every upload so
+   * caches never serve a stale one; the previous image is removed.
+   */
+  async updateAvatar(
+    userId: string,
+    file: Blob,
+    meta: SessionMeta = {},
+    expectedVersion?: Date | string
+  ) {
+    if (file.size > AVATAR_MAX_BYTES) {
+      throw new PayloadTooLargeError("Avatar too large");
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const type = AVATAR_TYPES.find(({ matches }) => matches(bytes));
+
+    if (!type) {
+      throw new UnsupportedMediaTypeError(
+        "Avatar must be a PNG, JPEG, WebP or GIF image"
+      );
+    }
+
+    const key = `avatars/${userId}/${randomUUID()}.${type.extension}`;
+    await storage.put(key, bytes, { contentType: type.contentType });
+
+    const previous = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarKey: true },
+    });
+
+    try {
+      await this.writeIfUnchanged(userId, { avatarKey: key }, expectedVersion);
+    } catch (error) {
+      await storage.delete(key).catch(() => undefined);
+      throw error;
+    }
+
+    const user = await this.getProfile(userId);
+
+    if (previous?.avatarKey) {
+      // A leftover file is harmless, so do not fail the upload over it
+      await storage.delete(previous.avatarKey).catch((error) => {
+        logger.warn("Failed to delete previous avatar", {
+          userId,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    }
+
+    await auditService.record(userId, "avatar.updated", meta);
+    logger.info("Avatar updated", { userId });
+
+    return user;
+  }
+
+  /**
+   * Change the password after checking the current one.
+   * Every other session is signed out and every personal access token
+   * revoked; the calling session is kept.
+   */
+  async changePassword(
+    userId: string,
+    { currentPassword, newPassword }: ChangePassword,
+    currentSessionId?: string,
+    meta: SessionMeta = {}
+  ) {
+    await this.assertPassword(
+      userId,
+      currentPassword,
+      "Invalid current password"
+    );
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { password: await hashPassword(newPassword) },
+    });
+
+    const revoked = await sessionService.revokeAll(userId, {
+      except: currentSessionId,
+    });
+    // Tokens created by whoever had the old password must not outlive it
+    const revokedTokens = await personalAccessTokenService.revokeAll(userId);
+
+    await auditService.record(userId, "password.changed", {
+      ...meta,
+      metadata: { revokedTokens },
+    });
+
+    logger.info("Password changed", {
+      userId,
+      revokedSessions: revoked,
+      revokedTokens,
+    });
+  }
+
+  /**
+   * Everything stored about the user, as a versioned archive.
+   * Secrets (password hash, 2FA secret, token hashes) are left out.
+   */
+  async exportData(userId: string) {
+    const [user, sessions, personalAccessTokens, auditEvents] =
+      await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId, deletedAt: null },
+          select: { ...profileSelect, twoFactorEnabledAt: true },
+        }),
+        prisma.session.findMany({
+          where: { userId },
+          select: {
+            id: true,
+            userAgent: true,
+            ip: true,
+            createdAt: true,
+            lastUsedAt: true,
+            expiresAt: true,
+            revokedAt: true,
+          },
+          orderBy: { createdAt: "desc" },
+        }),
+        prisma.personalAccessToken.findMany({
+          where: { userId },
+          select: {
+            id: true,
+            name: true,
+            prefix: true,
+            scopes: true,
+            expiresAt: true,
+            lastUsedAt: true,
+            revokedAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: "desc" },
+        }),
+        auditService.listForUser(userId),
+      ]);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    logger.info("Personal data exported", { userId });
+
+    return {
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      exportedAt: new Date(),
+      user: toProfile(user),
+      sessions,
+      personalAccessTokens,
+      auditEvents,
+    };
+  }
+
+  /**
+   * Delete the account after checking the password. This is the users
+   * soft delete, so every session and token is revoked at once and the
+   * data is purged when the retention period (the grace period) ends.
+   */
+  async deleteAccount(
+    userId: string,
+    { password }: DeleteAccount,
+    meta: SessionMeta = {}
+  ) {
+    await this.assertPassword(userId, password, "Invalid password");
+
+    const deleted = await userService.deleteUser(userId);
+
+    await auditService.record(userId, "account.deleted", meta);
+
+    const purgeAfter = userService.getPurgeDate(deleted.deletedAt);
+
+    logger.info("Account deleted by user", { userId, purgeAfter });
+
+    return { purgeAfter };
+  }
+
+  /**
+   * Check the user's password. Attempts count towards the same account
+   * lockout as logins, so a stolen session cannot be used to guess it.
+   */
+  private async assertPassword(
+    userId: string,
+    password: string,
+    message: string
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId, deletedAt: null },
+      select: { email: true, password: true },
+    });
+
+    if (!user) {
+      throw new BadRequestError(message);
+    }
+
+    const throttleTarget = { email: user.email };
+    await loginThrottleService.reserveAttempt(throttleTarget);
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      await loginThrottleService.recordFailure(throttleTarget);
+      throw new BadRequestError(message);
+    }
+
+    await loginThrottleService.recordSuccess(throttleTarget);
+  }
+
+  /**
+   * Update the user, only while still at `expectedVersion` when given.
+   * Throws NotFoundError or PreconditionFailedError when nothing matched.
+   */
+  private async writeIfUnchanged(
+    userId: string,
+    data: Prisma.UserUpdateManyMutationInput,
+    expectedVersion?: Date | string
+  ) {
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        deletedAt: null,
+        ...(expectedVersion && { updatedAt: expectedVersion }),
+      },
+      data,
+    });
+
+    if (count === 0) {
+      const version = await this.getVersion(userId);
+      throw version
+        ? preconditionFailed(version)
+        : new NotFoundError("User not found");
+    }
+  }
 }
@@ -0,0 +1,226 @@
+import { prisma } from "@/prisma";
+import { Prisma } from "@prisma/client";
+import { logger } from "@/middleware/logger";
+import { hashPassword } from "@/modules/auth/password";
+import { parseCsvRecords, toCsvLine } from "@/shared/csv";
+import { BadRequestError } from "@/shared/errors";
+import {
+  CreateUserSchema,
+  type CreateUser,
+  type ImportReport,
+  type ImportRowResult,
+  type UserTransferFormat,
+} from "./user.schema";
+
+// Every created row costs a bcrypt hash, so one request stays small.
+// Split larger files into several requests.
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_BYTES = 1024 * 1024;
+
+// Rows hashed at once; bcrypt runs on libuv's pool of four threads
+const HASH_CONCURRENCY = 4;
+
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_COLUMNS = [
+  "id",
+  "name",
+  "surname",
+  "email",
+  "role",
+  "emailVerifiedAt",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+type ParsedRecord = { record: unknown } | { error: string };
+
+const parseRecords = (
+  body: string,
+  format: UserTransferFormat
+): ParsedRecord[] => {
+  if (format === "csv") {
+    return parseCsvRecords(body).map((record) => ({ record }));
+  }
+
+  return body
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      try {
+        return { record: JSON.parse(line) as unknown };
+      } catch {
+        return { error: "Invalid JSON" };
+      }
+    });
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+export class UserTransferService {
+  /**
+   * Create users from CSV (with a header row) or NDJSON, one user per row.
+   * Rows are validated with CreateUserSchema; existing emails and repeats
+   * within the file are skipped as duplicates.
+   */
+  async importUsers(
+    body: string,
+    format: UserTransferFormat,
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<ImportReport> {
+    const parsed = parseRecords(body, format);
+
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestError(
+        `Too many rows, the limit is ${MAX_IMPORT_ROWS}`
+      );
+    }
+
+    const results: ImportRowResult[] = [];
+    const candidates: { row: number; data: CreateUser }[] = [];
+
+    parsed.forEach((entry, index) => {
+      const row = index + 1;
+
+      if ("error" in entry) {
+        results.push({
+          row,
+          status: "invalid",
+          issues: [{ path: "", message: entry.error }],
+        });
+        return;
+      }
+
+      const result = CreateUserSchema.safeParse(entry.record);
+
+      if (!result.success) {
+        const email = (entry.record as { email?: unknown } | null)?.email;
+        results.push({
+          row,
+          status: "invalid",
+          email: typeof email === "string" ? email : undefined,
+          issues: result.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      candidates.push({ row, data: result.data });
+    });
+
+    // Emails already taken, including by soft-deleted users
+    const existing = await prisma.user.findMany({
+      where: { email: { in: candidates.map(({ data }) => data.email) } },
+      select: { email: true },
+    });
+    const takenEmails = new Set(existing.map(({ email }) => email));
+    const toCreate: typeof candidates = [];
+
+    for (const { row, data } of candidates) {
+      if (takenEmails.has(data.email)) {
+        results.push({ row, status: "duplicate", email: data.email });
+        continue;
+      }
+      takenEmails.add(data.email);
+
+      if (dryRun) {
+        results.push({ row, status: "created", email: data.email });
+        continue;
+      }
+
+      toCreate.push({ row, data });
+    }
+
+    const create = async ({ row, data }: (typeof candidates)[number]) => {
+      try {
+        const user = await prisma.user.create({
+          data: { ...data, password: await hashPassword(data.password) },
+          select: { id: true },
+        });
+        results.push({
+          row,
+          status: "created",
+          email: data.email,
+          id: user.id,
+        });
+      } catch (error) {
+        // Created concurrently since the lookup above
+        if (!isUniqueViolation(error)) throw error;
+        results.push({ row, status: "duplicate", email: data.email });
+      }
+    };
+
+    for (let i = 0; i < toCreate.length; i += HASH_CONCURRENCY) {
+      await Promise.all(toCreate.slice(i, i + HASH_CONCURRENCY).map(create));
+    }
+
+    results.sort((a, b) => a.row - b.row);
+
+    const summary = {
+      total: results.length,
+      created: results.filter(({ status }) => status === "created").length,
+      duplicate: results.filter(({ status }) => status === "duplicate").length,
+      invalid: results.filter(({ status }) => status === "invalid").length,
+    };
+
+    logger.info("Users imported", { format, dryRun, ...summary });
+
+    return { dryRun, summary, rows: results };
+  }
+
+  /**
+   * Stream every user (deleted ones excluded) in batches, so the table is
+   * never held in memory at once
+   */
+  exportUsers(format: UserTransferFormat) {
+    let cursor: string | undefined;
+    let headerSent = false;
+
+    return new ReadableStream<string>({
+      async pull(controller) {
+        if (format === "csv" && !headerSent) {
+          headerSent = true;
+          controller.enqueue(toCsvLine([...EXPORT_COLUMNS]));
+          return;
+        }
+
+        const users = await prisma.user.findMany({
+          where: { deletedAt: null, ...(cursor ? { id: { gt: cursor } } : {}) },
+          select: {
+            id: true,
+            name: true,
+            surname: true,
+            email: true,
+            role: true,
+            emailVerifiedAt: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+          orderBy: { id: "asc" },
+          take: EXPORT_BATCH_SIZE,
+        });
+
+        if (users.length > 0) {
+          controller.enqueue(
+            users
+              .map((user) =>
+                format === "csv"
+                  ? toCsvLine(EXPORT_COLUMNS.map((column) => user[column]))
+                  : `${JSON.stringify(user)}\n`
+              )
+              .join("")
+          );
+          cursor = users[users.length - 1].id;
+        }
+
+        if (users.length < EXPORT_BATCH_SIZE) {
+          controller.close();
+        }
+      },
+    });
+  }
+}
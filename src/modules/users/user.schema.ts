@@ -1,10 +1,13 @@
 import { z } from "@hono/zod-openapi";
+import { passwordSchema } from "@/modules/auth/password";
+import { paginatedSchema, paginationQuerySchema } from "@/shared/pagination";
 
 export const UserSchema = z.object({
   id: z.string().describe("The id of the user"),
   name: z.string().describe("The name of the user"),
   surname: z.string().describe("The surname of the user"),
   email: z.string().email().describe("The email of the user"),
+  role: z.enum(["ADMIN", "MEMBER"]).describe("The role of the user"),
   createdAt: z.date().describe("The creation date of the user"),
   updatedAt: z.date().describe("The last update date of the user"),
 });
@@ -13,16 +16,110 @@ export const CreateUserSchema = z.object({
   name: z.string().min(1).describe("The name of the user"),
   surname: z.string().min(1).describe("The surname of the user"),
   email: z.string().email().describe("The email of the user"),
-  password: z.string().min(6).describe("The password of the user"),
+  password: passwordSchema.describe("The password of the user"),
 });
 
 export const UpdateUserSchema = z.object({
   name: z.string().min(1).describe("The name of the user").optional(),
   surname: z.string().min(1).describe("The surname of the user").optional(),
-  email: z.string().email().describe("The email of the user").optional(),
+  email: z
+    .string()
+    .email()
+    .describe(
+      "The email of the user. A new address must be verified again, a link is sent to it"
+    )
+    .optional(),
+  role: z
+    .enum(["ADMIN", "MEMBER"])
+    .describe("The role of the user. Requires users:assign-role")
+    .optional(),
+});
+
+export const UserParamsSchema = z.object({
+  id: z.string().describe("The id of the user"),
+});
+
+export const USER_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "email",
+  "name",
+  "surname",
+] as const;
+
+export const ListUsersQuerySchema = paginationQuerySchema(
+  USER_SORT_FIELDS
+).extend({
+  email: z
+    .string()
+    .optional()
+    .describe("Only users whose email contains this text"),
+  name: z
+    .string()
+    .optional()
+    .describe("Only users whose name or surname contains this text"),
+  createdFrom: z.coerce
+    .date()
+    .optional()
+    .describe("Only users created at or after this date"),
+  createdTo: z.coerce
+    .date()
+    .optional()
+    .describe("Only users created before this date"),
+});
+
+export const UserPageSchema = paginatedSchema(UserSchema);
+
+export const USER_TRANSFER_FORMATS = ["csv", "ndjson"] as const;
+
+export const ImportUsersQuerySchema = z.object({
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .describe("Validate and report without creating any user"),
+});
+
+export const ImportRowResultSchema = z.object({
+  row: z.number().describe("1-based data row (the CSV header is not counted)"),
+  status: z
+    .enum(["created", "duplicate", "invalid"])
+    .describe("In a dry run, created means the row would be created"),
+  email: z.string().optional().describe("Email of the row, when present"),
+  id: z.string().optional().describe("Id of the created user"),
+  issues: z
+    .array(
+      z.object({
+        path: z.string().describe("Field the issue applies to"),
+        message: z.string().describe("What is wrong with it"),
+      })
+    )
+    .optional()
+    .describe("Validation issues of an invalid row"),
+});
+
+export const ImportReportSchema = z.object({
+  dryRun: z.boolean().describe("Whether nothing was written"),
+  summary: z.object({
+    total: z.number(),
+    created: z.number(),
+    duplicate: z.number(),
+    invalid: z.number(),
+  }),
+  rows: z.array(ImportRowResultSchema),
+});
+
+export const ExportUsersQuerySchema = z.object({
+  format: z
+    .enum(USER_TRANSFER_FORMATS)
+    .default("ndjson")
+    .describe("Output format"),
 });
 
 // Type exports
 export type User = z.infer<typeof UserSchema>;
 export type CreateUser = z.infer<typeof CreateUserSchema>;
 export type UpdateUser = z.infer<typeof UpdateUserSchema>;
+export type ListUsersQuery = z.infer<typeof ListUsersQuerySchema>;
+export type UserTransferFormat = (typeof USER_TRANSFER_FORMATS)[number];
+export type ImportRowResult = z.infer<typeof ImportRowResultSchema>;
+export type ImportReport = z.infer<typeof ImportReportSchema>;
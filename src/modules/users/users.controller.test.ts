@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import type { Role } from "@prisma/client";
+import { mockPrisma } from "@/test/prisma";
+import { errorHandler } from "@/middleware/error-handler";
+import { SessionService } from "@/modules/auth/session.service";
+import { userController } from "./users.controller";
+
+type UserRow = {
+  id: string;
+  name: string;
+  surname: string;
+  email: string;
+  avatarKey: string | null;
+  emailVerifiedAt: Date | null;
+  role: Role;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const users = new Map<string, UserRow>();
+const sessions = new Map<string, { id: string; userId: string }>();
+
+// Just enough of prisma.user and prisma.session for PUT /users/:id
+mockPrisma({
+  user: {
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      users.get(where.id) ?? null,
+    findUniqueOrThrow: async ({ where }: { where: { id: string } }) =>
+      users.get(where.id),
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: Partial<UserRow>;
+    }) => {
+      const row = users.get(where.id);
+      if (row) Object.assign(row, data, { updatedAt: new Date() });
+      return { count: row ? 1 : 0 };
+    },
+  },
+  session: {
+    create: async ({ data }: { data: { id: string; userId: string } }) => {
+      sessions.set(data.id, data);
+    },
+    findUnique: async ({ where }: { where: { id: string } }) => {
+      const row = sessions.get(where.id);
+      return row && { ...row, revokedAt: null, expiresAt: new Date(8.64e15) };
+    },
+  },
+});
+
+const app = new Hono();
+app.onError(errorHandler);
+app.route("/users", userController);
+
+const sessionService = new SessionService();
+
+const addUser = (
+  id: string,
+  role: Role,
+  permissions: string[] = []
+): UserRow => {
+  const user = {
+    id,
+    name: "Ada",
+    surname: "Lovelace",
+    email: `${id}@example.com`,
+    avatarKey: null,
+    emailVerifiedAt: new Date(),
+    role,
+    permissions,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  users.set(id, user);
+  return user;
+};
+
+const put = async (asUserId: string, id: string, body: object) => {
+  const { accessToken } = await sessionService.create(asUserId);
+  return app.request(`/users/${id}`, {
+    method: "PUT",
+    headers: {
+      authorization: `Bearer ${accessToken}`,
+      "content-type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+};
+
+beforeEach(() => {
+  users.clear();
+  addUser("admin", "ADMIN");
+  addUser("member", "MEMBER");
+  addUser("other", "MEMBER");
+});
+
+describe("PUT /users/:id", () => {
+  test("lets members edit themselves", async () => {
+    const res = await put("member", "member", { name: "Augusta" });
+
+    expect(res.status).toBe(200);
+    expect(users.get("member")?.name).toBe("Augusta");
+  });
+
+  test("forbids members editing others", async () => {
+    expect((await put("member", "other", { name: "Augusta" })).status).toBe(
+      403
+    );
+    expect(users.get("other")?.name).toBe("Ada");
+  });
+
+  test("forbids members promoting themselves", async () => {
+    const res = await put("member", "member", { role: "ADMIN" });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      detail: "Missing permission: users:assign-role",
+    });
+    expect(users.get("member")?.role).toBe("MEMBER");
+  });
+
+  test("needs users:assign-role besides users:update to change roles", async () => {
+    addUser("editor", "MEMBER", ["users:update"]);
+
+    expect((await put("editor", "other", { name: "Augusta" })).status).toBe(
+      200
+    );
+    expect((await put("editor", "other", { role: "ADMIN" })).status).toBe(403);
+    expect(users.get("other")?.role).toBe("MEMBER");
+  });
+
+  test("lets users holding users:assign-role change roles", async () => {
+    addUser("manager", "MEMBER", ["users:update", "users:assign-role"]);
+
+    expect((await put("admin", "member", { role: "ADMIN" })).status).toBe(200);
+    expect((await put("manager", "other", { role: "ADMIN" })).status).toBe(200);
+    expect(users.get("member")?.role).toBe("ADMIN");
+    expect(users.get("other")?.role).toBe("ADMIN");
+  });
+});
@@ -1,37 +1,207 @@
 import { UserService } from "./users.service";
+import {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  UserTransferService,
+} from "./user-transfer.service";
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
-import { errorSchema, successSchema } from "@/shared/api";
-import { UserSchema, CreateUserSchema, UpdateUserSchema } from "./user.schema";
-import { authMiddleware } from "@/middleware/auth";
-import { injectUser } from "@/middleware/user-injection";
+import type { Context } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import { defaultHook, errorSchema, successSchema } from "@/shared/api";
+import {
+  UserSchema,
+  CreateUserSchema,
+  UpdateUserSchema,
+  UserParamsSchema,
+  ListUsersQuerySchema,
+  UserPageSchema,
+  ImportUsersQuerySchema,
+  ImportReportSchema,
+  ExportUsersQuerySchema,
+  type UserTransferFormat,
+} from "./user.schema";
+import { authMiddleware, requireScope } from "@/middleware/auth";
+import {
+  getUser,
+  injectUser,
+  requireVerifiedEmail,
+} from "@/middleware/user-injection";
+import { requirePermission } from "@/middleware/authorization";
+import { etag, getIfMatchVersion } from "@/middleware/etag";
+import { hasPermission } from "@/shared/permissions";
+import {
+  ForbiddenError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "@/shared/errors";
 
 const userService = new UserService();
+const userTransferService = new UserTransferService();
 
-export const userController = new OpenAPIHono();
+export const userController = new OpenAPIHono({ defaultHook });
 
 // Apply middleware chain: auth -> inject user
 userController.use("/*", authMiddleware);
 userController.use("/*", injectUser);
 
-// GET /users - Get all users
+// Members may read and edit only themselves
+const targetUserId = (c: Context) => c.req.param("id");
+
+// Version of the targeted user, for ETag / If-Match
+const targetUserVersion = etag((c) =>
+  userService.getUserVersion(c.req.param("id"))
+);
+
+// Import format from the Content-Type header
+const getImportFormat = (c: Context): UserTransferFormat | undefined => {
+  const contentType = c.req.header("content-type") ?? "";
+  if (contentType.includes("text/csv")) return "csv";
+  if (contentType.includes("ndjson") || contentType.includes("jsonl")) {
+    return "ndjson";
+  }
+  return undefined;
+};
+
+const EXPORT_CONTENT_TYPES: Record<UserTransferFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+};
+
+// GET /users - List users, paginated
 userController.openapi(
   createRoute({
     tags: ["Users"],
     method: "get",
     path: "/",
+    middleware: [
+      requireScope("users:read"),
+      requirePermission("users:read"),
+    ] as const,
+    request: {
+      query: ListUsersQuerySchema,
+    },
     responses: {
       200: {
         description: "User fetched successfully",
         content: {
           "application/json": {
-            schema: z.array(UserSchema),
+            schema: UserPageSchema,
+          },
+        },
+      },
+      400: {
+        description: "Invalid query parameters",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Token is missing the users:read scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
           },
         },
       },
       500: {
         description: "Failed to fetch users",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const users = await userService.getAllUsers(c.req.valid("query"));
+    return c.json(users, 200);
+  }
+);
+
+// POST /users/import - Create users in bulk from CSV or NDJSON
+userController.openapi(
+  createRoute({
+    tags: ["Users"],
+    method: "post",
+    path: "/import",
+    middleware: [
+      requireVerifiedEmail,
+      requireScope("users:write"),
+      requirePermission("users:create"),
+      // Reject oversized files before reading them
+      bodyLimit({
+        maxSize: MAX_IMPORT_BYTES,
+        onError: () => {
+          throw new PayloadTooLargeError("Import file too large");
+        },
+      }),
+    ] as const,
+    request: {
+      query: ImportUsersQuerySchema,
+      body: {
+        description: `CSV with a name,surname,email,password header, or one JSON user per line. At most ${MAX_IMPORT_ROWS} rows and ${MAX_IMPORT_BYTES / 1024 / 1024} MB.`,
+        required: true,
+        content: {
+          "text/csv": {
+            schema: z.string(),
+          },
+          "application/x-ndjson": {
+            schema: z.string(),
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Per-row import report",
         content: {
           "application/json": {
+            schema: ImportReportSchema,
+          },
+        },
+      },
+      400: {
+        description: "Invalid query parameters or too many rows",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Email not verified, token is missing the users:write scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      413: {
+        description: "Import file too large",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      415: {
+        description:
+          "Content-Type is neither text/csv nor application/x-ndjson",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to import users",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -39,13 +209,75 @@ userController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const users = await userService.getAllUsers();
-      return c.json(users, 200);
-    } catch (error) {
-      console.error(error);
-      return c.json({ error: "Fail ed to fetch users" }, 500);
+    const format = getImportFormat(c);
+
+    if (!format) {
+      throw new UnsupportedMediaTypeError(
+        "Content-Type must be text/csv or application/x-ndjson"
+      );
     }
+
+    const report = await userTransferService.importUsers(
+      await c.req.text(),
+      format,
+      { dryRun: c.req.valid("query").dryRun === "true" }
+    );
+    return c.json(report, 200);
+  }
+);
+
+// GET /users/export - Stream all users as CSV or NDJSON
+userController.openapi(
+  createRoute({
+    tags: ["Users"],
+    method: "get",
+    path: "/export",
+    middleware: [
+      requireScope("users:read"),
+      requirePermission("users:read"),
+    ] as const,
+    request: {
+      query: ExportUsersQuerySchema,
+    },
+    responses: {
+      200: {
+        description: "All users, streamed",
+        content: {
+          "text/csv": {
+            schema: z.string(),
+          },
+          "application/x-ndjson": {
+            schema: z.string(),
+          },
+        },
+      },
+      400: {
+        description: "Invalid query parameters",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Token is missing the users:read scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const { format } = c.req.valid("query");
+    const stream = userTransferService.exportUsers(format);
+
+    return c.body(stream.pipeThrough(new TextEncoderStream()), 200, {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="users.${format}"`,
+    });
   }
 );
 
@@ -55,6 +287,21 @@ userController.openapi(
     tags: ["Users"],
     method: "post",
     path: "/",
+    middleware: [
+      requireVerifiedEmail,
+      requireScope("users:write"),
+      requirePermission("users:create"),
+    ] as const,
+    request: {
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: CreateUserSchema,
+          },
+        },
+      },
+    },
     responses: {
       201: {
         description: "User created successfully",
@@ -67,7 +314,24 @@ userController.openapi(
       400: {
         description: "Invalid request data",
         content: {
-          "application/json": {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Email not verified, token is missing the users:write scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      409: {
+        description: "A user with this email already exists",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -75,7 +339,7 @@ userController.openapi(
       500: {
         description: "Failed to create user",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -83,22 +347,9 @@ userController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const userData = await c.req.json();
-      const validatedData = CreateUserSchema.parse(userData);
-      const newUser = await userService.createUser(validatedData);
-
-      if (!newUser) {
-        return c.json({ error: "Failed to create user" }, 500);
-      }
+    await userService.createUser(c.req.valid("json"));
 
-      return c.json({ success: true }, 201);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return c.json({ error: "Invalid request data" }, 400);
-      }
-      return c.json({ error: "Failed to create user" }, 500);
-    }
+    return c.json({ success: true }, 201);
   }
 );
 
@@ -108,6 +359,14 @@ userController.openapi(
     tags: ["Users"],
     method: "get",
     path: "/:id",
+    middleware: [
+      requireScope("users:read"),
+      requirePermission("users:read", { owner: targetUserId }),
+      targetUserVersion,
+    ] as const,
+    request: {
+      params: UserParamsSchema,
+    },
     responses: {
       200: {
         description: "User fetched successfully",
@@ -117,10 +376,13 @@ userController.openapi(
           },
         },
       },
+      304: {
+        description: "Not modified since the ETag in If-None-Match",
+      },
       404: {
         description: "User not found",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -128,7 +390,16 @@ userController.openapi(
       400: {
         description: "Invalid user ID",
         content: {
-          "application/json": {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Token is missing the users:read scope or permission denied",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -136,7 +407,7 @@ userController.openapi(
       500: {
         description: "Failed to fetch user",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -144,23 +415,10 @@ userController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const { id } = z
-        .object({ id: z.string() })
-        .parse({ id: c.req.param("id") });
-      const user = await userService.getUserById(id);
-
-      if (!user) {
-        return c.json({ error: "User not found" }, 404);
-      }
+    const { id } = c.req.valid("param");
+    const user = await userService.getUserById(id);
 
-      return c.json({ success: true, data: user }, 200);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return c.json({ error: "Invalid user ID" }, 400);
-      }
-      return c.json({ error: "Failed to fetch user" }, 500);
-    }
+    return c.json({ success: true, data: user }, 200);
   }
 );
 
@@ -170,6 +428,23 @@ userController.openapi(
     tags: ["Users"],
     method: "put",
     path: "/:id",
+    middleware: [
+      requireVerifiedEmail,
+      requireScope("users:write"),
+      requirePermission("users:update", { owner: targetUserId }),
+      targetUserVersion,
+    ] as const,
+    request: {
+      params: UserParamsSchema,
+      body: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: UpdateUserSchema,
+          },
+        },
+      },
+    },
     responses: {
       200: {
         description: "User updated successfully",
@@ -182,7 +457,7 @@ userController.openapi(
       404: {
         description: "User not found",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -190,7 +465,32 @@ userController.openapi(
       400: {
         description: "Invalid request data",
         content: {
-          "application/json": {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Email not verified, token is missing the users:write scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      412: {
+        description: "User was modified since the ETag in If-Match",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      409: {
+        description: "Email taken by another user",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -198,7 +498,7 @@ userController.openapi(
       500: {
         description: "Failed to update user",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -206,35 +506,37 @@ userController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const { id } = z
-        .object({ id: z.string() })
-        .parse({ id: c.req.param("id") });
-      const userData = await c.req.json();
-      const validatedData = UpdateUserSchema.parse(userData);
+    const { id } = c.req.valid("param");
+    const validatedData = c.req.valid("json");
 
-      const updatedUser = await userService.updateUser(id, validatedData);
+    // Changing roles needs its own permission, so members cannot promote themselves
+    if (validatedData.role && !hasPermission(getUser(c), "users:assign-role")) {
+      throw new ForbiddenError("Missing permission: users:assign-role");
+    }
 
-      if (!updatedUser) {
-        return c.json({ error: "User not found" }, 404);
-      }
+    await userService.updateUser(id, validatedData, {
+      expectedVersion: getIfMatchVersion(c),
+    });
 
-      return c.json({ success: true }, 200);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return c.json({ error: "Invalid request data" }, 400);
-      }
-      return c.json({ error: "Failed to update user" }, 500);
-    }
+    return c.json({ success: true }, 200);
   }
 );
 
-// DELETE /users/:id - Delete a user
+// DELETE /users/:id - Soft-delete a user
 userController.openapi(
   createRoute({
     tags: ["Users"],
     method: "delete",
     path: "/:id",
+    middleware: [
+      requireVerifiedEmail,
+      requireScope("users:write"),
+      requirePermission("users:delete"),
+      targetUserVersion,
+    ] as const,
+    request: {
+      params: UserParamsSchema,
+    },
     responses: {
       200: {
         description: "User deleted successfully",
@@ -247,7 +549,7 @@ userController.openapi(
       404: {
         description: "User not found",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -255,7 +557,24 @@ userController.openapi(
       400: {
         description: "Invalid user ID",
         content: {
-          "application/json": {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Email not verified, token is missing the users:write scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      412: {
+        description: "User was modified since the ETag in If-Match",
+        content: {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -263,7 +582,7 @@ userController.openapi(
       500: {
         description: "Failed to delete user",
         content: {
-          "application/json": {
+          "application/problem+json": {
             schema: errorSchema,
           },
         },
@@ -271,22 +590,77 @@ userController.openapi(
     },
   }),
   async (c) => {
-    try {
-      const { id } = z
-        .object({ id: z.string() })
-        .parse({ id: c.req.param("id") });
-      const deletedUser = await userService.deleteUser(id);
+    const { id } = c.req.valid("param");
+    await userService.deleteUser(id, {
+      expectedVersion: getIfMatchVersion(c),
+    });
 
-      if (!deletedUser) {
-        return c.json({ error: "User not found" }, 404);
-      }
+    return c.json({ success: true }, 200);
+  }
+);
 
-      return c.json({ success: true }, 200);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return c.json({ error: "Invalid user ID" }, 400);
-      }
-      return c.json({ error: "Failed to delete user" }, 500);
-    }
+// POST /users/:id/restore - Restore a soft-deleted user
+userController.openapi(
+  createRoute({
+    tags: ["Users"],
+    method: "post",
+    path: "/:id/restore",
+    middleware: [
+      requireVerifiedEmail,
+      requireScope("users:write"),
+      requirePermission("users:restore"),
+    ] as const,
+    request: {
+      params: UserParamsSchema,
+    },
+    responses: {
+      200: {
+        description: "User restored successfully",
+        content: {
+          "application/json": {
+            schema: successSchema(UserSchema),
+          },
+        },
+      },
+      404: {
+        description: "Deleted user not found",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      400: {
+        description: "Invalid user ID",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      403: {
+        description:
+          "Email not verified, token is missing the users:write scope or permission denied",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+      500: {
+        description: "Failed to restore user",
+        content: {
+          "application/problem+json": {
+            schema: errorSchema,
+          },
+        },
+      },
+    },
+  }),
+  async (c) => {
+    const { id } = c.req.valid("param");
+    const restoredUser = await userService.restoreUser(id);
+
+    return c.json({ success: true, data: restoredUser }, 200);
   }
 );
@@ -1,18 +1,66 @@
 import { prisma } from "@/prisma";
+import { config } from "@/config";
+import type { Prisma, Role } from "@prisma/client";
+import { hashPassword } from "@/modules/auth/password";
+import { EmailVerificationService } from "@/modules/auth/email-verification.service";
+import { logger } from "@/middleware/logger";
+import { preconditionFailed } from "@/middleware/etag";
+import { NotFoundError } from "@/shared/errors";
+import { toPage, toPrismaPage } from "@/shared/pagination";
+import type { ListUsersQuery } from "./user.schema";
+
+// How long soft-deleted users are kept before purgeDeleted removes them
+const getRetentionDays = () => config.users.retentionDays;
+
+const emailVerificationService = new EmailVerificationService();
+
+type WriteCondition = {
+  // Only write while the user is still at this version (its updatedAt)
+  expectedVersion?: Date | string;
+};
 
 export class UserService {
-  async getAllUsers() {
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        name: true,
-        surname: true,
-        email: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
-    return users;
+  async getAllUsers({
+    email,
+    name,
+    createdFrom,
+    createdTo,
+    ...page
+  }: ListUsersQuery) {
+    const where: Prisma.UserWhereInput = {
+      deletedAt: null,
+      ...(email ? { email: { contains: email, mode: "insensitive" } } : {}),
+      ...(name
+        ? {
+            OR: [
+              { name: { contains: name, mode: "insensitive" } },
+              { surname: { contains: name, mode: "insensitive" } },
+            ],
+          }
+        : {}),
+      ...(createdFrom || createdTo
+        ? { createdAt: { gte: createdFrom, lt: createdTo } }
+        : {}),
+    };
+
+    const [users, total] = await prisma.$transaction([
+      prisma.user.findMany({
+        where,
+        ...toPrismaPage(page),
+        select: {
+          id: true,
+          name: true,
+          surname: true,
+          email: true,
+          role: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return toPage(users, { limit: page.limit, total });
   }
 
   async createUser(userData: {
@@ -22,12 +70,13 @@ export class UserService {
     password: string;
   }) {
     const result = await prisma.user.create({
-      data: userData,
+      data: { ...userData, password: await hashPassword(userData.password) },
       select: {
         id: true,
         name: true,
         surname: true,
         email: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -39,50 +88,189 @@ export class UserService {
     const result = await prisma.user.findUnique({
       where: {
         id,
+        deletedAt: null,
       },
       select: {
         id: true,
         name: true,
         surname: true,
         email: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
     });
+
+    if (!result) {
+      throw new NotFoundError("User not found");
+    }
+
     return result;
   }
 
+  /**
+   * Last modification time, used as the user's ETag version
+   */
+  async getUserVersion(id: string) {
+    const user = await prisma.user.findUnique({
+      where: { id, deletedAt: null },
+      select: { updatedAt: true },
+    });
+    return user?.updatedAt ?? null;
+  }
+
   async updateUser(
     id: string,
     userData: Partial<{
       name: string;
       surname: string;
       email: string;
-    }>
+      role: Role;
+    }>,
+    { expectedVersion }: WriteCondition = {}
   ) {
-    const result = await prisma.user.update({
+    const current = await prisma.user.findUnique({
+      where: { id, deletedAt: null },
+      select: { email: true },
+    });
+
+    if (!current) {
+      throw new NotFoundError("User not found");
+    }
+
+    // A new address is unverified until its owner opens the link sent to it
+    const emailChanged =
+      userData.email !== undefined && current.email !== userData.email;
+
+    // A taken email fails with P2002, which the error handler answers with 409
+    const { count } = await prisma.user.updateMany({
       where: {
         id,
+        deletedAt: null,
+        ...(expectedVersion && { updatedAt: expectedVersion }),
       },
-      data: userData,
+      data: { ...userData, ...(emailChanged && { emailVerifiedAt: null }) },
+    });
+
+    if (count === 0) {
+      throw await this.writeConflict(id);
+    }
+
+    const result = await prisma.user.findUniqueOrThrow({
+      where: { id },
       select: {
         id: true,
         name: true,
         surname: true,
         email: true,
+        role: true,
         createdAt: true,
         updatedAt: true,
       },
     });
+
+    // As on sign-up, a failed email should not fail the update
+    if (emailChanged) {
+      try {
+        await emailVerificationService.sendVerification(result);
+      } catch (error) {
+        logger.error("Failed to send verification email", {
+          userId: id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
     return result;
   }
 
-  async deleteUser(id: string) {
-    const result = await prisma.user.delete({
-      where: {
-        id,
-      },
+  /**
+   * Soft-delete a user and sign them out everywhere.
+   * Throws NotFoundError when there is no such user or it is already deleted,
+   * PreconditionFailedError when it changed since `expectedVersion`.
+   */
+  async deleteUser(id: string, { expectedVersion }: WriteCondition = {}) {
+    const now = new Date();
+
+    const count = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.user.updateMany({
+        where: {
+          id,
+          deletedAt: null,
+          ...(expectedVersion && { updatedAt: expectedVersion }),
+        },
+        data: { deletedAt: now },
+      });
+
+      // Leave sessions and tokens alone when the user was not deleted
+      if (count === 0) return count;
+
+      await tx.session.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      await tx.personalAccessToken.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      await tx.passwordResetToken.deleteMany({ where: { userId: id } });
+
+      return count;
     });
-    return result;
+
+    if (count === 0) {
+      throw await this.writeConflict(id);
+    }
+
+    return { id, deletedAt: now };
+  }
+
+  /**
+   * Undo a soft delete. Revoked sessions and tokens stay revoked.
+   * Throws NotFoundError when there is no such deleted user.
+   */
+  async restoreUser(id: string) {
+    const { count } = await prisma.user.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("Deleted user not found");
+    }
+
+    return await this.getUserById(id);
+  }
+
+  /**
+   * When a user deleted at the given time will be purged
+   */
+  getPurgeDate(deletedAt: Date) {
+    return new Date(
+      deletedAt.getTime() + getRetentionDays() * 24 * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Permanently remove users deleted longer ago than the retention period
+   * (USER_RETENTION_DAYS). Related rows go with them via cascades.
+   */
+  async purgeDeleted(retentionDays = getRetentionDays()) {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const { count } = await prisma.user.deleteMany({
+      where: { deletedAt: { lt: cutoff } },
+    });
+
+    return count;
+  }
+
+  /**
+   * Why a conditional write matched no user: it is gone, or it changed
+   */
+  private async writeConflict(id: string) {
+    const version = await this.getUserVersion(id);
+    return version
+      ? preconditionFailed(version)
+      : new NotFoundError("User not found");
   }
 }
@@ -1,9 +1,18 @@
 import { PrismaClient } from "@prisma/client";
+import { config } from "@/config";
+import { instrumentQuery } from "./instrumentation";
+
+const createClient = () =>
+  new PrismaClient().$extends({
+    query: {
+      $allOperations: instrumentQuery,
+    },
+  });
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined;
+  prisma: ReturnType<typeof createClient> | undefined;
 };
 
-export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+export const prisma = globalForPrisma.prisma ?? createClient();
 
-if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
+if (!config.isProduction) globalForPrisma.prisma = prisma;
@@ -0,0 +1,53 @@
+import { logger } from "@/middleware/logger";
+import { withSpan } from "@/tracing";
+import { metrics } from "@/metrics";
+
+const queryDuration = metrics.histogram({
+  name: "prisma_query_duration_seconds",
+  help: "Prisma query durations in seconds",
+  labelNames: ["model", "operation"],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+});
+
+type QueryParams<A, R> = {
+  model?: string;
+  operation: string;
+  args: A;
+  query: (args: A) => Promise<R>;
+};
+
+/**
+ * Runs every Prisma query in a span and records its duration and a
+ * debug log. Extensions run in the caller's async context, so query logs
+ * carry the request ID of whoever issued the query and spans nest under
+ * its span.
+ */
+export const instrumentQuery = async <A, R>({
+  model,
+  operation,
+  args,
+  query,
+}: QueryParams<A, R>) => {
+  const start = performance.now();
+
+  try {
+    return await withSpan(
+      `prisma ${model ? `${model}.` : ""}${operation}`,
+      {
+        "db.system.name": "postgresql",
+        "db.operation.name": operation,
+        ...(model && { "db.collection.name": model }),
+      },
+      () => query(args)
+    );
+  } finally {
+    const seconds = (performance.now() - start) / 1000;
+
+    queryDuration.observe({ model: model ?? "raw", operation }, seconds);
+    logger.debug("Prisma query", {
+      model,
+      operation,
+      durationMs: Math.round(seconds * 1000),
+    });
+  }
+};
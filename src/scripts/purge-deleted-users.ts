@@ -0,0 +1,23 @@
+import { prisma } from "@/prisma";
+import { logger } from "@/middleware/logger";
+import { UserService } from "@/modules/users/users.service";
+
+// Permanently remove soft-deleted users past the retention period.
+// Run on a schedule, e.g. daily from cron: bun run users:purge
+const userService = new UserService();
+
+const main = async () => {
+  try {
+    const count = await userService.purgeDeleted();
+    logger.info("Purged deleted users", { count });
+  } catch (error) {
+    logger.error("Failed to purge deleted users", {
+      error: error instanceof Error ? error.message : error,
+    });
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+};
+
+main();
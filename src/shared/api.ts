@@ -1,8 +1,66 @@
-import { z } from "@hono/zod-openapi";
+import { z, type Hook } from "@hono/zod-openapi";
+import type { Env, ValidationTargets } from "hono";
+import { ValidationError } from "./errors";
 
-export const errorSchema = z.object({
-  error: z.string().openapi({ description: "Error message" }),
-});
+const VALIDATION_TARGETS: Record<keyof ValidationTargets, string> = {
+  json: "request body",
+  form: "form data",
+  query: "query parameters",
+  param: "path parameters",
+  header: "headers",
+  cookie: "cookies",
+};
+
+/**
+ * Validation hook for every OpenAPIHono instance:
+ * new OpenAPIHono({ defaultHook })
+ * A request that fails its route's schemas is answered with a 400 problem
+ * listing each invalid field under `errors`.
+ */
+export const defaultHook: Hook<unknown, Env, string, void> = (result) => {
+  if (!result.success) {
+    throw ValidationError.fromZod(
+      result.error,
+      `Invalid ${VALIDATION_TARGETS[result.target]}`
+    );
+  }
+};
+
+// Problem details (RFC 9457), rendered by the app's error handler
+export const errorSchema = z
+  .object({
+    type: z.string().openapi({
+      description: "Problem type, about:blank unless noted",
+      example: "about:blank",
+    }),
+    title: z.string().openapi({
+      description: "Summary of the status code",
+      example: "Not Found",
+    }),
+    status: z
+      .number()
+      .openapi({ description: "HTTP status code", example: 404 }),
+    detail: z.string().openapi({
+      description: "Error message",
+      example: "User not found",
+    }),
+    instance: z.string().openapi({
+      description: "Path of the request",
+      example: "/api/v1/users/123",
+    }),
+    requestId: z.string().openapi({
+      description: "ID of the request, found in the logs as well",
+    }),
+    errors: z
+      .array(z.object({ path: z.string(), message: z.string() }))
+      .optional()
+      .openapi({ description: "Fields that failed validation" }),
+    retryAfter: z
+      .number()
+      .optional()
+      .openapi({ description: "Seconds to wait before retrying" }),
+  })
+  .openapi("Problem");
 
 export const successSchema = <T>(schema?: z.ZodType<T>) =>
   z.object({
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { parseCsv, parseCsvRecords, toCsvLine } from "./csv";
+
+describe("parseCsv", () => {
+  test("splits rows and fields", () => {
+    expect(parseCsv("a,b\r\nc,d\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  test("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(parseCsv('"a,b","say ""hi""","two\nlines"')).toEqual([
+      ["a,b", 'say "hi"', "two\nlines"],
+    ]);
+  });
+
+  test("skips blank lines and a byte order mark", () => {
+    expect(parseCsv("\ufeffa\n\n\nb\n")).toEqual([["a"], ["b"]]);
+  });
+
+  test("keeps empty fields", () => {
+    expect(parseCsv("a,,c\n,,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  test("maps rows to the header's columns", () => {
+    expect(
+      parseCsvRecords(" name , email\nAda,ada@example.com\nBob\n")
+    ).toEqual([
+      { name: "Ada", email: "ada@example.com" },
+      { name: "Bob", email: "" },
+    ]);
+  });
+});
+
+describe("toCsvLine", () => {
+  test("quotes fields that need it and ends with CRLF", () => {
+    expect(toCsvLine(["plain", "a,b", 'say "hi"', "two\nlines"])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  test("writes dates as ISO strings and empty cells for null", () => {
+    expect(toCsvLine([new Date(0), null, undefined, 42])).toBe(
+      "1970-01-01T00:00:00.000Z,,,42\r\n"
+    );
+  });
+
+  test.each(["=1+1", "+1", "-1", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "neutralises the formula %p",
+    (value) => {
+      const [[cell]] = parseCsv(toCsvLine([value]));
+      expect(cell).toBe(`'${value}`);
+    }
+  );
+
+  test("neutralises formulas inside quoted fields", () => {
+    expect(toCsvLine(['=HYPERLINK("http://x","y")'])).toBe(
+      '"\'=HYPERLINK(""http://x"",""y"")"\r\n'
+    );
+  });
+
+  test("round-trips through parseCsv", () => {
+    const values = ["Ada", "Lovelace", "a,b", 'q"q', "x\r\ny"];
+    expect(parseCsv(toCsvLine(values))).toEqual([values]);
+  });
+});
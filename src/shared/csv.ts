@@ -0,0 +1,80 @@
+// Minimal RFC 4180 CSV support: comma separated, double-quoted fields,
+// "" as an escaped quote, LF or CRLF line endings
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Excel prepends a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Parse CSV with a header row into one record per data row
+ */
+export const parseCsvRecords = (text: string) => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, row[index] ?? ""])
+    )
+  );
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+
+  const raw = value instanceof Date ? value.toISOString() : String(value);
+  // A leading ' makes the spreadsheet show the cell as text
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: unknown[]) =>
+  `${values.map(escapeCsvField).join(",")}\r\n`;
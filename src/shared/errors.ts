@@ -0,0 +1,137 @@
+import { z } from "@hono/zod-openapi";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+const STATUS_TITLES: Partial<Record<number, string>> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+};
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+type AppErrorOptions = {
+  // Extra members of the problem body, e.g. the fields that failed validation
+  extensions?: Record<string, unknown>;
+  // Response headers, e.g. Retry-After
+  headers?: Record<string, string>;
+  cause?: unknown;
+};
+
+/**
+ * An error that maps to an HTTP response. Services throw the subclasses
+ * below and the app's error handler renders them as problem details
+ * (RFC 9457). The message becomes the `detail` shown to clients, so keep
+ * internals out of it.
+ */
+export class AppError extends Error {
+  readonly title: string;
+  readonly extensions: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    readonly status: ContentfulStatusCode,
+    message: string,
+    { extensions = {}, headers = {}, cause }: AppErrorOptions = {}
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.title = STATUS_TITLES[status] ?? "Error";
+    this.extensions = extensions;
+    this.headers = headers;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message = "Bad request", options?: AppErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+/**
+ * Request data that failed validation, with one issue per field
+ */
+export class ValidationError extends AppError {
+  constructor(
+    readonly issues: ValidationIssue[],
+    message = "Invalid request data"
+  ) {
+    super(400, message, { extensions: { errors: issues } });
+  }
+
+  static fromZod(error: z.ZodError, message?: string) {
+    return new ValidationError(
+      error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+      message
+    );
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Unauthorized", options?: AppErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden", options?: AppErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Not found", options?: AppErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = "Conflict", options?: AppErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message = "Precondition failed", options?: AppErrorOptions) {
+    super(412, message, options);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message = "Request body too large", options?: AppErrorOptions) {
+    super(413, message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message = "Unsupported media type", options?: AppErrorOptions) {
+    super(415, message, options);
+  }
+}
+
+/**
+ * Rate limited. Sends Retry-After and a matching retryAfter member.
+ */
+export class TooManyRequestsError extends AppError {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(429, message, {
+      extensions: { retryAfter: retryAfterSeconds },
+      headers: { "Retry-After": String(retryAfterSeconds) },
+    });
+  }
+}
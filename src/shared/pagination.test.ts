@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_PAGE_SIZE,
+  paginationQuerySchema,
+  toPage,
+  toPrismaPage,
+  type PaginationQuery,
+} from "./pagination";
+
+type Row = { id: string; createdAt: number };
+
+const query = (
+  overrides: Partial<PaginationQuery<"createdAt">> = {}
+): PaginationQuery<"createdAt"> => ({
+  limit: 2,
+  sort: "createdAt",
+  order: "asc",
+  ...overrides,
+});
+
+// What Prisma does with toPrismaPage's arguments, for rows already in order
+const findMany = (rows: Row[], args: ReturnType<typeof toPrismaPage>) => {
+  const start =
+    "cursor" in args && args.cursor
+      ? rows.findIndex(({ id }) => id === args.cursor.id)
+      : 0;
+
+  return rows.slice(start + args.skip, start + args.skip + args.take);
+};
+
+describe("paginationQuerySchema", () => {
+  const schema = paginationQuerySchema(["createdAt", "email"]);
+
+  test("fills in defaults", () => {
+    expect(schema.parse({})).toEqual({
+      limit: DEFAULT_PAGE_SIZE,
+      sort: "createdAt",
+      order: "desc",
+    });
+  });
+
+  test("coerces numbers from the query string", () => {
+    expect(schema.parse({ limit: "5", offset: "10" })).toMatchObject({
+      limit: 5,
+      offset: 10,
+    });
+  });
+
+  test.each([
+    { limit: "0" },
+    { limit: "101" },
+    { offset: "-1" },
+    { sort: "id" },
+  ])("rejects %p", (input) => {
+    expect(schema.safeParse(input).success).toBe(false);
+  });
+});
+
+describe("toPrismaPage", () => {
+  test("fetches one extra row and breaks ties on id", () => {
+    expect(toPrismaPage(query({ order: "desc" }))).toEqual({
+      take: 3,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      skip: 0,
+    });
+  });
+
+  test("skips by offset", () => {
+    expect(toPrismaPage(query({ offset: 4 }))).toMatchObject({ skip: 4 });
+  });
+
+  test("starts after the cursor, ignoring the offset", () => {
+    const cursor = Buffer.from("user-2").toString("base64url");
+
+    expect(toPrismaPage(query({ cursor, offset: 4 }))).toMatchObject({
+      cursor: { id: "user-2" },
+      skip: 1,
+    });
+  });
+});
+
+describe("toPage", () => {
+  const rows: Row[] = ["a", "b", "c", "d", "e"].map((id, createdAt) => ({
+    id,
+    createdAt,
+  }));
+
+  test("returns no cursor on the last page", () => {
+    expect(toPage(rows.slice(0, 2), { limit: 2, total: 2 })).toEqual({
+      data: rows.slice(0, 2),
+      meta: { total: 2, limit: 2, nextCursor: null },
+    });
+  });
+
+  test("walks every row once by following nextCursor", () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = toPage(findMany(rows, toPrismaPage(query({ cursor }))), {
+        limit: 2,
+        total: rows.length,
+      });
+
+      expect(page.data.length).toBeLessThanOrEqual(2);
+      seen.push(...page.data.map(({ id }) => id));
+      cursor = page.meta.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  test("does not leave a dangling cursor when the last page is full", () => {
+    const page = toPage(findMany(rows, toPrismaPage(query({ limit: 5 }))), {
+      limit: 5,
+      total: rows.length,
+    });
+
+    expect(page.data).toHaveLength(5);
+    expect(page.meta.nextCursor).toBeNull();
+  });
+});
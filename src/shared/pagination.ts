@@ -0,0 +1,106 @@
+import { z } from "@hono/zod-openapi";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+type SortOrder = "asc" | "desc";
+
+/**
+ * Query parameters shared by every list endpoint. Extend the result with
+ * the module's own filters.
+ */
+export const paginationQuerySchema = <S extends string>(
+  sortFields: readonly [S, ...S[]]
+) =>
+  z.object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_PAGE_SIZE)
+      .default(DEFAULT_PAGE_SIZE)
+      .describe("Maximum number of items to return"),
+    cursor: z
+      .string()
+      .optional()
+      .describe(
+        "nextCursor of the previous page. Takes precedence over offset"
+      ),
+    offset: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Number of items to skip"),
+    sort: z
+      .enum(sortFields)
+      .default(sortFields[0])
+      .describe("Field to sort by"),
+    order: z.enum(["asc", "desc"]).default("desc").describe("Sort direction"),
+  });
+
+export type PaginationQuery<S extends string = string> = {
+  limit: number;
+  cursor?: string;
+  offset?: number;
+  sort: S;
+  order: SortOrder;
+};
+
+export const PageMetaSchema = z.object({
+  total: z.number().describe("Number of items matching the filters"),
+  limit: z.number().describe("Page size used"),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe("Cursor for the next page, or null on the last page"),
+});
+
+export const paginatedSchema = <T>(item: z.ZodType<T>) =>
+  z.object({
+    data: z.array(item),
+    meta: PageMetaSchema,
+  });
+
+// Cursors are opaque to clients; today they wrap the last item's id
+const encodeCursor = (id: string) => Buffer.from(id).toString("base64url");
+const decodeCursor = (cursor: string) =>
+  Buffer.from(cursor, "base64url").toString();
+
+/**
+ * Prisma findMany arguments for a page. Fetches one extra row to know
+ * whether another page follows; id breaks ties so the order is stable.
+ */
+export const toPrismaPage = <S extends string>({
+  limit,
+  cursor,
+  offset,
+  sort,
+  order,
+}: PaginationQuery<S>) => ({
+  take: limit + 1,
+  orderBy: [{ [sort]: order } as { [K in S]?: SortOrder }, { id: order }],
+  ...(cursor
+    ? { cursor: { id: decodeCursor(cursor) }, skip: 1 }
+    : { skip: offset ?? 0 }),
+});
+
+/**
+ * Build the response envelope from rows fetched with toPrismaPage
+ */
+export const toPage = <T extends { id: string }>(
+  rows: T[],
+  { limit, total }: { limit: number; total: number }
+) => {
+  const data = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+
+  return {
+    data,
+    meta: {
+      total,
+      limit,
+      nextCursor: hasMore ? encodeCursor(data[data.length - 1].id) : null,
+    },
+  };
+};
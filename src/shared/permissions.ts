@@ -0,0 +1,25 @@
+import type { Role } from "@prisma/client";
+
+export const PERMISSIONS = [
+  "users:read",
+  "users:create",
+  "users:update",
+  "users:delete",
+  "users:restore",
+  "users:assign-role",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// What each role may do. Extra permissions can be granted per user.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  MEMBER: [],
+};
+
+export const hasPermission = (
+  user: { role: Role; permissions: string[] },
+  permission: Permission
+) =>
+  ROLE_PERMISSIONS[user.role].includes(permission) ||
+  user.permissions.includes(permission);
@@ -0,0 +1,25 @@
+import { config } from "@/config";
+import { LocalStorageDriver } from "./local";
+import { S3StorageDriver } from "./s3";
+import type { StorageDriver } from "./types";
+
+export const LOCAL_UPLOADS_PATH = "/uploads";
+
+export const getLocalStorageDir = () => config.storage.localDir;
+
+const createStorage = (): StorageDriver => {
+  switch (config.storage.driver) {
+    case "s3":
+      return new S3StorageDriver(config.storage.s3);
+    default:
+      return new LocalStorageDriver(
+        getLocalStorageDir(),
+        `${config.appUrl}${LOCAL_UPLOADS_PATH}`
+      );
+  }
+};
+
+export const storage = createStorage();
+
+export { LocalStorageDriver, S3StorageDriver };
+export type { PutOptions, StorageDriver } from "./types";
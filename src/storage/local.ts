@@ -0,0 +1,44 @@
+import { mkdir, rm, writeFile } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import type { PutOptions, StorageDriver } from "./types";
+
+/**
+ * Stores files on the local filesystem. The app serves them under
+ * /uploads (see utils/uploads.ts), so this suits single-instance deployments.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(
+    dir: string,
+    private readonly publicUrl: string
+  ) {
+    this.root = resolve(dir);
+  }
+
+  async put(key: string, data: Blob | Uint8Array, _options: PutOptions) {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(
+      path,
+      data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data
+    );
+  }
+
+  async delete(key: string) {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  url(key: string) {
+    return `${this.publicUrl.replace(/\/$/, "")}/${key}`;
+  }
+
+  // Keys must stay inside the storage directory
+  private resolveKey(key: string) {
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,51 @@
+import { S3Client } from "bun";
+import type { PutOptions, StorageDriver } from "./types";
+
+export interface S3StorageOptions {
+  bucket: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Base URL objects are publicly served from, e.g. a CDN
+  publicUrl?: string;
+}
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO, R2, ...).
+ * Objects must be publicly readable, through a bucket policy or a CDN.
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      bucket: options.bucket,
+      endpoint: options.endpoint,
+      region: options.region,
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    });
+  }
+
+  async put(key: string, data: Blob | Uint8Array, { contentType }: PutOptions) {
+    await this.client.write(key, data, { type: contentType });
+  }
+
+  async delete(key: string) {
+    await this.client.delete(key);
+  }
+
+  url(key: string) {
+    return `${this.baseUrl().replace(/\/$/, "")}/${key}`;
+  }
+
+  private baseUrl() {
+    const { publicUrl, endpoint, bucket, region = "us-east-1" } = this.options;
+
+    if (publicUrl) return publicUrl;
+    // Path-style, which MinIO and most S3-compatible services accept
+    if (endpoint) return `${endpoint}/${bucket}`;
+    return `https://${bucket}.s3.${region}.amazonaws.com`;
+  }
+}
@@ -0,0 +1,14 @@
+export interface PutOptions {
+  contentType: string;
+}
+
+/**
+ * Where uploaded files live. Keys are relative paths like
+ * "avatars/<userId>/<id>.png"; implement this to plug in another backend.
+ */
+export interface StorageDriver {
+  put(key: string, data: Blob | Uint8Array, options: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Public URL the file can be fetched from
+  url(key: string): string;
+}
@@ -0,0 +1,20 @@
+import type { prisma } from "@/prisma";
+
+type PrismaClient = typeof prisma;
+
+const delegates: Record<string, unknown> = {};
+
+/**
+ * Takes the place of the Prisma client in every test (see setup.ts), so
+ * unit tests never need a database. It starts empty: give it the
+ * delegates a test touches with mockPrisma().
+ */
+export const testPrisma = delegates as unknown as PrismaClient;
+
+/**
+ * Install fakes for Prisma delegates, e.g. mockPrisma({ session: fake }).
+ * Fakes only need the methods the code under test calls.
+ */
+export const mockPrisma = (fakes: { [K in keyof PrismaClient]?: unknown }) => {
+  Object.assign(delegates, fakes);
+};
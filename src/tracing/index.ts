@@ -0,0 +1,101 @@
+import {
+  isSpanContextValid,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+} from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { config } from "@/config";
+
+// Collects finished spans when OTEL_TRACES_EXPORTER=memory, for tests
+export const memorySpanExporter = new InMemorySpanExporter();
+
+const createSpanProcessor = (): SpanProcessor | undefined => {
+  switch (config.tracing.exporter) {
+    case "otlp":
+      return new BatchSpanProcessor(
+        new OTLPTraceExporter({
+          url: `${config.tracing.otlpEndpoint}/v1/traces`,
+        })
+      );
+    case "console":
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case "memory":
+      return new SimpleSpanProcessor(memorySpanExporter);
+    default:
+      return undefined;
+  }
+};
+
+const startTracing = () => {
+  const spanProcessor = createSpanProcessor();
+
+  // Without a provider the API hands out no-op spans that cost nothing
+  if (!spanProcessor) return undefined;
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      "service.name": config.tracing.serviceName,
+    }),
+    spanProcessors: [spanProcessor],
+  });
+
+  // AsyncLocalStorage context and W3C traceparent propagation
+  provider.register();
+
+  // Export what is still batched before the process ends
+  process.once("beforeExit", () => void provider.shutdown());
+
+  return provider;
+};
+
+export const tracerProvider = startTracing();
+
+export const tracer = trace.getTracer(config.tracing.serviceName);
+
+/**
+ * Run fn in a child span of the active one. A thrown error is recorded
+ * on the span, which ends once fn settles.
+ */
+export const withSpan = <T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+) =>
+  tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+
+export const recordError = (span: Span, error: unknown) => {
+  if (error instanceof Error) span.recordException(error);
+  span.setStatus({ code: SpanStatusCode.ERROR });
+};
+
+/**
+ * IDs of the active span, attached to log entries. Undefined when
+ * tracing is off or nothing is being traced.
+ */
+export const currentTraceIds = () => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+
+  if (!spanContext || !isSpanContextValid(spanContext)) return undefined;
+
+  return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+};
@@ -1,17 +1,22 @@
 import { cors as corsMiddleware } from "hono/cors";
 import { OpenAPIHono } from "@hono/zod-openapi";
+import { config } from "@/config";
+import { REQUEST_ID_HEADER } from "@/middleware/request-context";
 
 export default function cors(app: OpenAPIHono) {
   app.use(
     "*",
     corsMiddleware({
-      origin: [
-        "http://localhost:3000",
-        "http://localhost:3001",
-        "http://localhost:3002",
+      origin: [...config.cors.origins],
+      allowHeaders: [
+        "Content-Type",
+        "Authorization",
+        "If-Match",
+        "If-None-Match",
+        REQUEST_ID_HEADER,
       ],
-      allowHeaders: ["Content-Type", "Authorization"],
-      allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+      exposeHeaders: ["ETag", REQUEST_ID_HEADER],
+      allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     })
   );
 }
@@ -16,6 +16,8 @@ type ControllerWithUser = (
  * Higher-order function that injects user as first parameter
  * Compatible with OpenAPI routes
  * Usage: withUser((user, c) => { ... })
+ * The context it passes carries no route types, so routes that read
+ * c.req.valid() use a plain handler and call getUser(c) instead
  */
 export const withUser = (handler: ControllerWithUser): Handler => {
   return async (c: Context) => {
@@ -1,12 +1,10 @@
 import { createFiberplane } from "@fiberplane/hono";
 import { swaggerUI } from "@hono/swagger-ui";
 import { OpenAPIHono } from "@hono/zod-openapi";
+import { config } from "@/config";
 
 export default function docs(app: OpenAPIHono) {
-  if (
-    process.env.NODE_ENV === "testing" ||
-    process.env.NODE_ENV === "development"
-  ) {
+  if (config.env === "testing" || config.isDevelopment) {
     // OpenAPI
     app.doc("/docs", {
       openapi: "3.0.0",
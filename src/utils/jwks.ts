@@ -0,0 +1,12 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { TokenService } from "@/modules/auth/token.service";
+
+const tokenService = new TokenService();
+
+// Public keys for other services verifying tokens issued by this API
+export default function jwks(app: OpenAPIHono) {
+  app.get("/.well-known/jwks.json", async (c) => {
+    c.header("Cache-Control", "public, max-age=300");
+    return c.json(await tokenService.getJwks());
+  });
+}
@@ -0,0 +1,49 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { createHash, timingSafeEqual } from "crypto";
+import { Hono, type Context } from "hono";
+import { config } from "@/config";
+import { metrics as registry } from "@/metrics";
+import { getBearerToken } from "@/middleware/auth";
+import { errorHandler, notFoundHandler } from "@/middleware/error-handler";
+import { logger } from "@/middleware/logger";
+import { UnauthorizedError } from "@/shared/errors";
+
+const METRICS_PATH = "/metrics";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// Equal-length digests keep the comparison constant-time
+const isMetricsToken = (token: string | undefined) =>
+  token !== undefined &&
+  timingSafeEqual(digest(token), digest(config.metrics.token!));
+
+const serveMetrics = (c: Context) => {
+  if (config.metrics.token && !isMetricsToken(getBearerToken(c))) {
+    throw new UnauthorizedError();
+  }
+
+  return c.body(registry.render(), 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+};
+
+// Prometheus scrape endpoint. Served on METRICS_PORT when set, otherwise
+// on the app behind METRICS_TOKEN, and not at all without either.
+export default function metrics(app: OpenAPIHono) {
+  const { port, token } = config.metrics;
+
+  if (port) {
+    const internal = new Hono();
+    internal.get(METRICS_PATH, serveMetrics);
+    internal.onError(errorHandler);
+    internal.notFound(notFoundHandler);
+
+    Bun.serve({ port, fetch: internal.fetch });
+    logger.info("Serving metrics on an internal port", { port });
+    return;
+  }
+
+  if (token) {
+    app.get(METRICS_PATH, serveMetrics);
+  }
+}
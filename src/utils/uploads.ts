@@ -0,0 +1,19 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import { config } from "@/config";
+import { serveStatic } from "hono/bun";
+import { getLocalStorageDir, LOCAL_UPLOADS_PATH } from "@/storage";
+
+// Serve files kept by the local storage driver
+export default function uploads(app: OpenAPIHono) {
+  if (config.storage.driver !== "local") {
+    return;
+  }
+
+  app.use(
+    `${LOCAL_UPLOADS_PATH}/*`,
+    serveStatic({
+      root: getLocalStorageDir(),
+      rewriteRequestPath: (path) => path.slice(LOCAL_UPLOADS_PATH.length),
+    })
+  );
+}